@@ -0,0 +1,24 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+const units: [number, string][] = [
+	[60 * 60 * 24 * 365, 'year'],
+	[60 * 60 * 24 * 30, 'month'],
+	[60 * 60 * 24 * 7, 'week'],
+	[60 * 60 * 24, 'day'],
+	[60 * 60, 'hour'],
+	[60, 'minute'],
+];
+
+export function fromNow(date: number, now: number = Date.now()): string {
+	const seconds = Math.round((now - date) / 1000);
+	for (const [size, name] of units) {
+		const value = Math.floor(seconds / size);
+		if (value >= 1) {
+			return `${value} ${name}${value > 1 ? 's' : ''} ago`;
+		}
+	}
+	return 'just now';
+}
@@ -32,6 +32,14 @@ export interface SearchIssuesAndPullRequestsResponseItemsItemLabelsItem {
 	url: string;
 }
 
+export interface SearchIssuesAndPullRequestsResponseItemsItemMilestone {
+	html_url: string;
+	id: number;
+	number: number;
+	state: string;
+	title: string;
+}
+
 export interface SearchIssuesAndPullRequestsResponseItemsItem {
 	assignee: null | SearchIssuesAndPullRequestsResponseItemsItemUser;
 	assignees: null | Array<SearchIssuesAndPullRequestsResponseItemsItemUser>;
@@ -45,7 +53,7 @@ export interface SearchIssuesAndPullRequestsResponseItemsItem {
 	id: number;
 	labels: Array<SearchIssuesAndPullRequestsResponseItemsItemLabelsItem>;
 	labels_url: string;
-	milestone: null;
+	milestone: null | SearchIssuesAndPullRequestsResponseItemsItemMilestone;
 	node_id: string;
 	number: number;
 	pull_request: SearchIssuesAndPullRequestsResponseItemsItemPullRequest;
@@ -57,3 +65,83 @@ export interface SearchIssuesAndPullRequestsResponseItemsItem {
 	url: string;
 	user: SearchIssuesAndPullRequestsResponseItemsItemUser;
 }
+
+export interface IssuesOutputMetadata {
+	// identifies the output, and by that its cell, in messages from the renderer
+	outputId?: string;
+	itemCount: number;
+	totalCount?: number;
+	fetchedCount?: number;
+	truncated?: boolean;
+	queryUrls?: string[];
+	// number of matches by the index of the query in its cell, queries with OR'ed terms run multiple
+	// searches and their matches are only counted once when all of them have been fetched
+	queryCounts?: { [index: number]: QueryCount; };
+	split?: {
+		requestCount: number;
+	};
+	snapshot?: {
+		timestamp: number;
+		queries: string[];
+	};
+	view?: IssuesView;
+	// changes since the previous run of the cell
+	diff?: ResultDiff;
+}
+
+export interface QueryCount {
+	count: number;
+	// the searches of the query might have found the same issues
+	atMost?: boolean;
+}
+
+// new and changed items by url, and the items that don't match anymore
+export interface ResultDiff {
+	added: string[];
+	changed: string[];
+	removed: SearchIssuesAndPullRequestsResponseItemsItem[];
+}
+
+// how the renderer shows the results of a cell, stored in the cell metadata
+export interface IssuesView {
+	mode: 'list' | 'table';
+	sort?: {
+		column: string;
+		descending: boolean;
+	};
+	hiddenColumns?: string[];
+	groupBy?: 'repository' | 'label' | 'assignee' | 'milestone' | 'state';
+}
+
+// changes that can be made to many issues at once, values like the label are asked for by the extension
+export type BulkAction = 'addLabel' | 'removeLabel' | 'assign' | 'unassign' | 'setMilestone' | 'close' | 'reopen' | 'lock';
+
+// messages from the renderer to the extension
+export type RendererMessage =
+	{ type: 'view'; outputId: string; view: IssuesView; } |
+	{ type: 'hiddenCount'; outputId: string; count: number; } |
+	{ type: 'bulk'; outputId: string; action: BulkAction; urls: string[]; } |
+	{ type: 'details'; outputId: string; url: string; };
+
+// body and recent comments of an issue as HTML rendered by GitHub, and the pull requests that mention it
+export interface IssueDetails {
+	bodyHtml: string;
+	comments: {
+		id: number;
+		html_url: string;
+		user: string;
+		created_at: string;
+		bodyHtml: string;
+	}[];
+	commentCount: number;
+	pullRequests: {
+		html_url: string;
+		number: number;
+		title: string;
+		state: string;
+	}[];
+}
+
+// messages from the extension to the renderer
+export type ExtensionMessage =
+	{ type: 'details'; url: string; details?: IssueDetails; error?: string; };
@@ -0,0 +1,186 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { RequestError } from '@octokit/request-error';
+import { Octokit } from '@octokit/rest';
+import * as vscode from 'vscode';
+import { BulkAction } from '../common/types.js';
+import { GithubData } from './githubDataProvider.js';
+import { IssuesNotebookKernel, getCellItems } from './notebookProvider.js';
+import { OctokitProvider } from './octokitProvider.js';
+import { ProjectContainer, QueryTarget } from './project.js';
+import { IssueRef, RepoInfo, parseIssueUrl } from './utils.js';
+
+// the value that an action needs, e.g. the name of the label to add
+interface ActionValue {
+	label: string;
+	value: string | number | null;
+}
+
+// changes many issues at once, e.g. adds a label to the issues that are selected in the output of a cell
+export class BulkActions {
+
+	constructor(
+		readonly container: ProjectContainer,
+		readonly octokit: OctokitProvider,
+		readonly kernel: IssuesNotebookKernel,
+		private readonly _githubData: GithubData
+	) { }
+
+	async run(cell: vscode.NotebookCell, action: BulkAction, urls: string[]): Promise<void> {
+		const issues = urls.map(parseIssueUrl).filter((issue): issue is IssueRef => Boolean(issue));
+		if (issues.length === 0) {
+			return;
+		}
+
+		let value: ActionValue | undefined;
+		if (action !== 'close' && action !== 'reopen' && action !== 'lock') {
+			value = await this._pickValue(action, issues, this.container.cellTarget(cell));
+			if (!value) {
+				return;
+			}
+		}
+
+		const multipleRepos = issues.some(issue => issue.owner !== issues[0].owner || issue.repo !== issues[0].repo);
+		const names = issues.map(issue => multipleRepos ? `${issue.owner}/${issue.repo}#${issue.number}` : `#${issue.number}`);
+		const ok = vscode.l10n.t('OK');
+		const option = await vscode.window.showWarningMessage(
+			describeAction(action, value, issues.length),
+			{ modal: true, detail: names.join(', ') },
+			ok
+		);
+		if (option !== ok) {
+			return;
+		}
+
+		// changes are made with the host and account that the cell queries
+		const { octokit } = await this.octokit.client(this.container.cellTarget(cell), true);
+
+		// names of the issues that couldn't be updated by error message, they are reported once at the end
+		const failed = new Map<string, string[]>();
+		await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Updating {0} issues', issues.length) }, async progress => {
+			for (let i = 0; i < issues.length; i++) {
+				try {
+					await this._apply(octokit, action, value, issues[i]);
+				} catch (err) {
+					const message = err instanceof Error ? err.message : String(err);
+					failed.set(message, [...failed.get(message) ?? [], names[i]]);
+				}
+				progress.report({ increment: 100 / issues.length });
+			}
+		});
+
+		const failedCount = [...failed.values()].reduce((sum, names) => sum + names.length, 0);
+		if (failedCount > 0) {
+			const details = [...failed].map(([message, names]) => `${names.join(', ')} (${message})`);
+			vscode.window.showErrorMessage(vscode.l10n.t('Failed to update {0}', details.join(', ')));
+		}
+		if (failedCount < issues.length) {
+			this.kernel.executeWithoutCache(affectedCells(cell.notebook, issues));
+		}
+	}
+
+	private async _apply(octokit: Octokit, action: BulkAction, value: ActionValue | undefined, issue: IssueRef): Promise<void> {
+		const { owner, repo, number: issue_number } = issue;
+		switch (action) {
+			case 'addLabel':
+				await octokit.issues.addLabels({ owner, repo, issue_number, labels: [String(value!.value)] });
+				break;
+			case 'removeLabel':
+				try {
+					await octokit.issues.removeLabel({ owner, repo, issue_number, name: String(value!.value) });
+				} catch (err) {
+					// the issue doesn't have the label
+					if (!(err instanceof RequestError && err.status === 404)) {
+						throw err;
+					}
+				}
+				break;
+			case 'assign':
+				await octokit.issues.addAssignees({ owner, repo, issue_number, assignees: [String(value!.value)] });
+				break;
+			case 'unassign':
+				await octokit.issues.removeAssignees({ owner, repo, issue_number, assignees: [String(value!.value)] });
+				break;
+			case 'setMilestone':
+				await octokit.issues.update({ owner, repo, issue_number, milestone: <number | null>value!.value });
+				break;
+			case 'close':
+				await octokit.issues.update({ owner, repo, issue_number, state: 'closed' });
+				break;
+			case 'reopen':
+				await octokit.issues.update({ owner, repo, issue_number, state: 'open' });
+				break;
+			case 'lock':
+				await octokit.issues.lock({ owner, repo, issue_number });
+				break;
+		}
+	}
+
+	private async _pickValue(action: BulkAction, issues: IssueRef[], target: QueryTarget): Promise<ActionValue | undefined> {
+		const repos = new Map<string, RepoInfo>();
+		for (const { owner, repo } of issues) {
+			repos.set(`${owner}/${repo}`, { owner, repo });
+		}
+		if (action === 'setMilestone' && repos.size > 1) {
+			// milestones are set by number, which differs between repositories
+			vscode.window.showInformationMessage(vscode.l10n.t('The milestone can only be set for issues of a single repository'));
+			return;
+		}
+
+		const items = (async () => {
+			const result = new Map<string, vscode.QuickPickItem & ActionValue>();
+			for (const info of repos.values()) {
+				if (action === 'addLabel' || action === 'removeLabel') {
+					for (const label of await this._githubData.getOrFetchLabels(info, target)) {
+						result.set(label.name, { label: label.name, description: label.description, value: label.name });
+					}
+				} else if (action === 'assign' || action === 'unassign') {
+					for (const user of await this._githubData.getOrFetchUsers(info, target)) {
+						result.set(user.login, { label: user.login, value: user.login });
+					}
+				} else {
+					for (const milestone of await this._githubData.getOrFetchMilestones(info, target)) {
+						if (milestone.state !== 'closed') {
+							result.set(milestone.title, { label: milestone.title, description: milestone.description, value: milestone.number });
+						}
+					}
+				}
+			}
+			if (action === 'setMilestone') {
+				result.set('', { label: vscode.l10n.t('No Milestone'), value: null });
+			}
+			return [...result.values()];
+		})();
+
+		const placeHolder = action === 'addLabel' || action === 'removeLabel'
+			? vscode.l10n.t('Select a label')
+			: action === 'assign' || action === 'unassign'
+				? vscode.l10n.t('Select a user')
+				: vscode.l10n.t('Select a milestone');
+		return vscode.window.showQuickPick(items, { placeHolder });
+	}
+}
+
+function describeAction(action: BulkAction, value: ActionValue | undefined, count: number): string {
+	switch (action) {
+		case 'addLabel': return vscode.l10n.t('Add label "{0}" to {1} issues?', value!.label, count);
+		case 'removeLabel': return vscode.l10n.t('Remove label "{0}" from {1} issues?', value!.label, count);
+		case 'assign': return vscode.l10n.t('Assign {0} to {1} issues?', value!.label, count);
+		case 'unassign': return vscode.l10n.t('Unassign {0} from {1} issues?', value!.label, count);
+		case 'setMilestone': return value!.value === null
+			? vscode.l10n.t('Remove the milestone of {0} issues?', count)
+			: vscode.l10n.t('Set milestone "{0}" for {1} issues?', value!.label, count);
+		case 'close': return vscode.l10n.t('Close {0} issues?', count);
+		case 'reopen': return vscode.l10n.t('Reopen {0} issues?', count);
+		case 'lock': return vscode.l10n.t('Lock {0} issues?', count);
+	}
+}
+
+// cells that show any of the issues
+function affectedCells(notebook: vscode.NotebookDocument, issues: IssueRef[]): vscode.NotebookCell[] {
+	const urls = new Set(issues.map(issue => issue.url));
+	return notebook.getCells().filter(cell => getCellItems(cell)?.some(item => urls.has(item.url)));
+}
@@ -0,0 +1,120 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { SearchIssuesAndPullRequestsResponseItemsItem } from '../common/types.js';
+import { IssuesNotebookKernel } from './notebookProvider.js';
+import { WatchSettings, getWatchSettings } from './watchSettings.js';
+
+const intervals = [5, 15, 30, 60];
+
+// runs watched cells periodically and notifies about results that weren't there before. Watch
+// settings are stored in the cell metadata so that they are saved with the notebook
+export class CellWatcher {
+
+	private readonly _disposables: vscode.Disposable[] = [];
+	private readonly _timers = new Map<vscode.NotebookCell, { interval: number; handle: ReturnType<typeof setInterval>; }>();
+
+	// cells that are running, or waiting for the rate limit, because of watching
+	private readonly _running = new Set<vscode.NotebookCell>();
+
+	constructor(readonly kernel: IssuesNotebookKernel) {
+		this._disposables.push(vscode.workspace.onDidOpenNotebookDocument(notebook => this._update(notebook)));
+		this._disposables.push(vscode.workspace.onDidCloseNotebookDocument(notebook => this._update(notebook)));
+		this._disposables.push(vscode.workspace.onDidChangeNotebookDocument(e => {
+			if (e.contentChanges.length > 0 || e.cellChanges.some(change => change.metadata)) {
+				this._update(e.notebook);
+			}
+		}));
+		vscode.workspace.notebookDocuments.forEach(notebook => this._update(notebook));
+	}
+
+	dispose(): void {
+		this._disposables.forEach(d => d.dispose());
+		this._timers.forEach(timer => clearInterval(timer.handle));
+		this._timers.clear();
+	}
+
+	async pick(cell: vscode.NotebookCell): Promise<void> {
+		const current = getWatchSettings(cell.metadata);
+
+		type Item = vscode.QuickPickItem & { watch: WatchSettings | undefined; };
+		const items: Item[] = intervals.map(interval => ({
+			label: vscode.l10n.t('Every {0} minutes', interval),
+			description: current?.interval === interval ? vscode.l10n.t('current') : undefined,
+			watch: { interval }
+		}));
+		if (current) {
+			items.push({ label: vscode.l10n.t('Stop Watching'), watch: undefined });
+		}
+		const item = await vscode.window.showQuickPick(items, { placeHolder: vscode.l10n.t('Run the cell periodically and get notified about new results') });
+		if (!item) {
+			return;
+		}
+
+		const { watch: _watch, ...metadata } = cell.metadata;
+		const edit = new vscode.WorkspaceEdit();
+		edit.set(cell.notebook.uri, [vscode.NotebookEdit.updateCellMetadata(cell.index, item.watch ? { ...metadata, watch: item.watch } : metadata)]);
+		await vscode.workspace.applyEdit(edit);
+	}
+
+	// starts and stops timers so that they match the cells of the notebook
+	private _update(notebook: vscode.NotebookDocument): void {
+		if (notebook.notebookType !== 'github-issues') {
+			return;
+		}
+		const cells = notebook.isClosed ? [] : notebook.getCells();
+		for (const [cell, timer] of this._timers) {
+			if (cell.notebook === notebook && (!cells.includes(cell) || getWatchSettings(cell.metadata)?.interval !== timer.interval)) {
+				clearInterval(timer.handle);
+				this._timers.delete(cell);
+			}
+		}
+		for (const cell of cells) {
+			const watch = getWatchSettings(cell.metadata);
+			if (watch && !this._timers.has(cell)) {
+				const handle = setInterval(() => this._run(cell), watch.interval * 60 * 1000);
+				this._timers.set(cell, { interval: watch.interval, handle });
+			}
+		}
+	}
+
+	private async _run(cell: vscode.NotebookCell): Promise<void> {
+		if (this._running.has(cell)) {
+			// the last run is still waiting for the search rate limit
+			return;
+		}
+		this._running.add(cell);
+		try {
+			const added = await this.kernel.refresh(cell);
+			if (added.length > 0) {
+				this._notify(cell, added);
+			}
+		} catch (err) {
+			console.warn(err);
+		} finally {
+			this._running.delete(cell);
+		}
+	}
+
+	private async _notify(cell: vscode.NotebookCell, added: SearchIssuesAndPullRequestsResponseItemsItem[]): Promise<void> {
+		const names = added.slice(0, 3).map(item => `#${item.number} ${item.title}`).join(', ');
+		const message = added.length === 1
+			? vscode.l10n.t('New result for a watched query: {0}', names)
+			: vscode.l10n.t('{0} new results for a watched query: {1}', added.length, added.length > 3 ? `${names}, ...` : names);
+
+		const open = added.length === 1 ? vscode.l10n.t('Open') : vscode.l10n.t('Open All');
+		const show = vscode.l10n.t('Show Cell');
+		const option = await vscode.window.showInformationMessage(message, open, show);
+		if (option === open) {
+			for (const item of added) {
+				await vscode.env.openExternal(vscode.Uri.parse(item.html_url));
+			}
+		} else if (option === show) {
+			const range = new vscode.NotebookRange(cell.index, cell.index + 1);
+			await vscode.window.showNotebookDocument(cell.notebook, { selections: [range] });
+		}
+	}
+}
@@ -4,15 +4,19 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
-import { mimeGithubIssues } from './notebookProvider.js';
+import { CellWatcher } from './cellWatcher.js';
+import { NotebookParameters } from './notebookParameters.js';
+import { ExportFormat, exportColumns, exportFileExtensions, exportItems } from './exportResults.js';
+import { IssuesNotebookKernel, getCellItems } from './notebookProvider.js';
 import { OctokitProvider } from './octokitProvider.js';
 import { ProjectContainer } from './project.js';
+import { getQueryUrl } from './utils.js';
 
-declare class TextDecoder {
-	decode(data: Uint8Array): string;
+declare class TextEncoder {
+	encode(data: string): Uint8Array;
 }
 
-export function registerCommands(projectContainer: ProjectContainer, octokit: OctokitProvider): vscode.Disposable {
+export function registerCommands(projectContainer: ProjectContainer, octokit: OctokitProvider, kernel: IssuesNotebookKernel, parameters: NotebookParameters, watcher: CellWatcher): vscode.Disposable {
 
 	const subscriptions: vscode.Disposable[] = [];
 
@@ -25,15 +29,7 @@ export function registerCommands(projectContainer: ProjectContainer, octokit: Oc
 
 	subscriptions.push(vscode.commands.registerCommand('github-issues.openAll', async (cell: vscode.NotebookCell) => {
 
-		let items: { html_url: string; }[] | undefined;
-		out: for (let output of cell.outputs) {
-			for (let item of output.items) {
-				if (item.mime === mimeGithubIssues) {
-					items = JSON.parse(new TextDecoder().decode(item.data));
-					break out;
-				}
-			}
-		}
+		const items = getCellItems(cell);
 		if (!items) {
 			return;
 		}
@@ -54,6 +50,44 @@ export function registerCommands(projectContainer: ProjectContainer, octokit: Oc
 		}
 	}));
 
+	subscriptions.push(vscode.commands.registerCommand('github-issues.exportResults', async (cell: vscode.NotebookCell | undefined) => {
+		cell ??= vscode.window.activeNotebookEditor?.notebook.cellAt(vscode.window.activeNotebookEditor.selection.start);
+		const items = cell && getCellItems(cell);
+		if (!cell || !items) {
+			vscode.window.showInformationMessage(vscode.l10n.t('Run the cell first to export its results'));
+			return;
+		}
+
+		const formats: (vscode.QuickPickItem & { format: ExportFormat; })[] = [
+			{ label: 'CSV', description: vscode.l10n.t('For spreadsheets'), format: 'csv' },
+			{ label: 'JSON', format: 'json' },
+			{ label: 'Markdown', description: vscode.l10n.t('A table'), format: 'markdown' },
+		];
+		const format = await vscode.window.showQuickPick(formats, { placeHolder: vscode.l10n.t('Export {0} results as', items.length) });
+		if (!format) {
+			return;
+		}
+
+		const columns = await vscode.window.showQuickPick(
+			exportColumns.map(column => ({ label: column.title, column, picked: true })),
+			{ canPickMany: true, placeHolder: vscode.l10n.t('Select the columns to export') }
+		);
+		if (!columns?.length) {
+			return;
+		}
+
+		const extension = exportFileExtensions[format.format];
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: cell.notebook.isUntitled ? undefined : vscode.Uri.joinPath(cell.notebook.uri, `../results.${extension}`),
+			filters: { [format.label]: [extension] }
+		});
+		if (!uri) {
+			return;
+		}
+		const content = exportItems(items, columns.map(item => item.column), format.format);
+		await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content));
+	}));
+
 	subscriptions.push(vscode.commands.registerCommand('github-issues.openUrl', async (cell: vscode.NotebookCell) => {
 		const project = projectContainer.lookupProject(cell.document.uri, false);
 		if (!project) {
@@ -61,14 +95,122 @@ export function registerCommands(projectContainer: ProjectContainer, octokit: Oc
 		}
 		const data = project.queryData(project.getOrCreate(cell.document));
 		for (let d of data) {
-			let url = `https://github.com/issues?q=${d.q}`;
-			if (d.sort) {
-				url += ` sort:${d.sort}`;
+			await vscode.env.openExternal(vscode.Uri.parse(getQueryUrl(d, octokit.resolveHost(d.host))));
+		}
+	}));
+
+	// the query of a cell that starts at an offset, used by code lenses
+	function queryAt(cell: vscode.NotebookCell, offset: number) {
+		const project = projectContainer.lookupProject(cell.document.uri, false);
+		if (!project) {
+			return undefined;
+		}
+		const doc = project.getOrCreate(cell.document);
+		const node = doc.nodes.find(node => node.start === offset);
+		return node && { project, doc, node };
+	}
+
+	subscriptions.push(vscode.commands.registerCommand('github-issues.runQuery', async (cell: vscode.NotebookCell, offset: number) => {
+		const query = queryAt(cell, offset);
+		if (query) {
+			await kernel.executeQuery(cell, query.node);
+		}
+	}));
+
+	subscriptions.push(vscode.commands.registerCommand('github-issues.openQueryUrl', async (cell: vscode.NotebookCell, offset: number) => {
+		const query = queryAt(cell, offset);
+		if (!query) {
+			return;
+		}
+		for (let d of query.project.queryData(query.doc, query.node)) {
+			await vscode.env.openExternal(vscode.Uri.parse(getQueryUrl(d, octokit.resolveHost(d.host))));
+		}
+	}));
+
+	subscriptions.push(vscode.commands.registerCommand('github-issues.copyQueryUrl', async (cell: vscode.NotebookCell, offset: number) => {
+		const query = queryAt(cell, offset);
+		if (!query) {
+			return;
+		}
+		const urls = query.project.queryData(query.doc, query.node).map(d => getQueryUrl(d, octokit.resolveHost(d.host)));
+		await vscode.env.clipboard.writeText(urls.join('\n'));
+	}));
+
+	subscriptions.push(vscode.commands.registerCommand('github-issues.runWithoutCache', (cell: vscode.NotebookCell | undefined) => {
+		cell ??= vscode.window.activeNotebookEditor?.notebook.cellAt(vscode.window.activeNotebookEditor.selection.start);
+		if (cell?.kind === vscode.NotebookCellKind.Code) {
+			kernel.executeWithoutCache([cell]);
+		}
+	}));
+
+	subscriptions.push(vscode.commands.registerCommand('github-issues.watchCell', async (cell: vscode.NotebookCell | undefined) => {
+		cell ??= vscode.window.activeNotebookEditor?.notebook.cellAt(vscode.window.activeNotebookEditor.selection.start);
+		if (cell?.kind === vscode.NotebookCellKind.Code) {
+			await watcher.pick(cell);
+		}
+	}));
+
+	subscriptions.push(vscode.commands.registerCommand('github-issues.toggleSnapshot', async () => {
+		const notebook = vscode.window.activeNotebookEditor?.notebook;
+		if (notebook?.notebookType !== 'github-issues') {
+			return;
+		}
+		const { snapshot: enabled, ...metadata } = notebook.metadata;
+		const edits = [vscode.NotebookEdit.updateNotebookMetadata(enabled ? metadata : { ...metadata, snapshot: true })];
+		if (!enabled) {
+			// keep the results that are showing right now
+			edits.push(...kernel.metadataEdits(notebook, true));
+		} else {
+			// forget all stored results
+			for (let cell of notebook.getCells()) {
+				if (cell.metadata?.snapshot) {
+					const { snapshot: _snapshot, ...cellMetadata } = cell.metadata;
+					edits.push(vscode.NotebookEdit.updateCellMetadata(cell.index, cellMetadata));
+				}
+			}
+		}
+		const edit = new vscode.WorkspaceEdit();
+		edit.set(notebook.uri, edits);
+		await vscode.workspace.applyEdit(edit);
+		vscode.window.showInformationMessage(enabled
+			? vscode.l10n.t('Results of this notebook are no longer saved')
+			: vscode.l10n.t('Results of this notebook are saved with it')
+		);
+	}));
+
+	subscriptions.push(vscode.commands.registerCommand('github-issues.selectAccount', async () => {
+		const notebook = vscode.window.activeNotebookEditor?.notebook;
+		if (notebook?.notebookType !== 'github-issues') {
+			return;
+		}
+		const { account: current, ...metadata } = notebook.metadata;
+		if (current) {
+			const switchAccount = vscode.l10n.t('Switch Account...');
+			const useDefault = vscode.l10n.t('Use Default Account');
+			const pick = await vscode.window.showQuickPick([switchAccount, useDefault], { placeHolder: vscode.l10n.t('Queries of this notebook run as {0}', current) });
+			if (pick === useDefault) {
+				const edit = new vscode.WorkspaceEdit();
+				edit.set(notebook.uri, [vscode.NotebookEdit.updateNotebookMetadata(metadata)]);
+				await vscode.workspace.applyEdit(edit);
+				return;
 			}
-			if (d.order) {
-				url += `-${d.order}`;
+			if (pick !== switchAccount) {
+				return;
 			}
-			await vscode.env.openExternal(vscode.Uri.parse(url));
+		}
+		const account = await octokit.pickAccount(projectContainer.notebookTarget(notebook).host);
+		if (!account || account === current) {
+			return;
+		}
+		const edit = new vscode.WorkspaceEdit();
+		edit.set(notebook.uri, [vscode.NotebookEdit.updateNotebookMetadata({ ...metadata, account })]);
+		await vscode.workspace.applyEdit(edit);
+	}));
+
+	subscriptions.push(vscode.commands.registerCommand('github-issues.setParameters', async () => {
+		const notebook = vscode.window.activeNotebookEditor?.notebook;
+		if (notebook?.notebookType === 'github-issues') {
+			await parameters.pick(notebook);
 		}
 	}));
 
@@ -0,0 +1,24 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// queries with more than 1000 results are split into ranges of creation dates, times
+// are in milliseconds but ranges are split on full seconds
+
+// the search API doesn't know anything older
+export const firstCreatedDate = Date.UTC(2007, 9, 1);
+
+export function printCreatedRange(from: number, to: number): string {
+	const date = (time: number) => new Date(time).toISOString().replace(/\.\d{3}Z$/, 'Z');
+	return `created:${date(from)}..${date(to)}`;
+}
+
+// two halves that don't overlap, undefined when the range is too small to split
+export function splitCreatedRange(from: number, to: number): [[number, number], [number, number]] | undefined {
+	if (to - from < 2000) {
+		return undefined;
+	}
+	const mid = from + Math.floor((to - from) / 2000) * 1000;
+	return [[from, mid], [mid + 1000, to]];
+}
@@ -0,0 +1,70 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { SearchIssuesAndPullRequestsResponseItemsItem } from '../common/types.js';
+
+type Item = SearchIssuesAndPullRequestsResponseItemsItem;
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export interface ExportColumn {
+	id: string;
+	title: string;
+	value(item: Item): string | number;
+}
+
+export const exportColumns: ExportColumn[] = [
+	{ id: 'number', title: 'Number', value: item => item.number },
+	{ id: 'title', title: 'Title', value: item => item.title },
+	{ id: 'state', title: 'State', value: item => item.state },
+	{ id: 'type', title: 'Type', value: item => item.pull_request ? 'pull request' : 'issue' },
+	// https://api.github.com/repos/owner/repo
+	{ id: 'repository', title: 'Repository', value: item => item.repository_url.split('/').slice(-2).join('/') },
+	{ id: 'labels', title: 'Labels', value: item => item.labels.map(label => label.name).join(', ') },
+	{ id: 'assignees', title: 'Assignees', value: item => (item.assignees ?? []).map(user => user.login).join(', ') },
+	{ id: 'author', title: 'Author', value: item => item.user.login },
+	{ id: 'milestone', title: 'Milestone', value: item => item.milestone?.title ?? '' },
+	{ id: 'comments', title: 'Comments', value: item => item.comments },
+	{ id: 'created', title: 'Created', value: item => item.created_at },
+	{ id: 'updated', title: 'Updated', value: item => item.updated_at },
+	{ id: 'closed', title: 'Closed', value: item => item.closed_at ?? '' },
+	{ id: 'url', title: 'URL', value: item => item.html_url },
+];
+
+export const exportFileExtensions: { [format in ExportFormat]: string } = {
+	csv: 'csv',
+	json: 'json',
+	markdown: 'md',
+};
+
+export function exportItems(items: readonly Item[], columns: readonly ExportColumn[], format: ExportFormat): string {
+	switch (format) {
+		case 'csv':
+			return [columns.map(column => column.title), ...items.map(item => columns.map(column => column.value(item)))]
+				.map(row => row.map(csvValue).join(','))
+				.join('\r\n') + '\r\n';
+		case 'json':
+			return JSON.stringify(items.map(item => Object.fromEntries(columns.map(column => [column.id, column.value(item)]))), undefined, '\t');
+		case 'markdown':
+			return [
+				columns.map(column => column.title),
+				columns.map(() => '---'),
+				...items.map(item => columns.map(column => column.value(item)))
+			].map(row => `| ${row.map(markdownValue).join(' | ')} |`).join('\n') + '\n';
+	}
+}
+
+// spreadsheets run text that starts like a formula, e.g. a title like `=HYPERLINK(...)`
+function csvValue(value: string | number): string {
+	let str = String(value);
+	if (typeof value === 'string' && /^[=+\-@\t\r]/.test(str)) {
+		str = `'${str}`;
+	}
+	return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function markdownValue(value: string | number): string {
+	return String(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -4,25 +4,43 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
+import { BulkActions } from './bulkActions.js';
+import { CellWatcher } from './cellWatcher.js';
 import { registerCommands } from './commands.js';
+import { GithubData } from './githubDataProvider.js';
 import { registerLanguageProvider } from './languageProvider.js';
-import { IssuesNotebookKernel, IssuesNotebookSerializer, IssuesStatusBarProvider } from './notebookProvider.js';
+import { AccountStatusBarItem, IssuesNotebookKernel, IssuesNotebookSerializer, IssuesStatusBarProvider, RendererMessaging } from './notebookProvider.js';
+import { NotebookParameters } from './notebookParameters.js';
 import { OctokitProvider } from './octokitProvider.js';
 import { ProjectContainer } from './project.js';
 
 export function activate(context: vscode.ExtensionContext) {
-	const octokit = new OctokitProvider();
-	const projectContainer = new ProjectContainer();
+	// integration tests send all requests to a local server with recorded responses
+	const apiUrl = context.extensionMode === vscode.ExtensionMode.Test && typeof process === 'object' ? process.env['GITHUB_ISSUES_API_URL'] : undefined;
+	const octokit = new OctokitProvider(apiUrl);
+	const serializer = new IssuesNotebookSerializer();
+	const projectContainer = new ProjectContainer(serializer);
+	const githubData = new GithubData(octokit);
+	const parameters = new NotebookParameters(projectContainer, githubData);
+	const kernel = new IssuesNotebookKernel(projectContainer, octokit, parameters);
+	const messaging = new RendererMessaging(projectContainer, octokit, kernel, new BulkActions(projectContainer, octokit, kernel, githubData));
+	const watcher = new CellWatcher(kernel);
 
-	context.subscriptions.push(new IssuesNotebookKernel(projectContainer, octokit));
-	context.subscriptions.push(vscode.notebooks.registerNotebookCellStatusBarItemProvider('github-issues', new IssuesStatusBarProvider()));
-	context.subscriptions.push(vscode.workspace.registerNotebookSerializer('github-issues', new IssuesNotebookSerializer(), {
+	context.subscriptions.push(octokit);
+	context.subscriptions.push(projectContainer);
+	context.subscriptions.push(githubData);
+	context.subscriptions.push(kernel);
+	context.subscriptions.push(messaging);
+	context.subscriptions.push(watcher);
+	context.subscriptions.push(vscode.notebooks.registerNotebookCellStatusBarItemProvider('github-issues', new IssuesStatusBarProvider(messaging)));
+	context.subscriptions.push(new AccountStatusBarItem());
+	context.subscriptions.push(vscode.workspace.registerNotebookSerializer('github-issues', serializer, {
 		transientOutputs: true,
 		transientCellMetadata: {
 			inputCollapsed: true,
 			outputCollapsed: true,
 		}
 	}));
-	context.subscriptions.push(registerLanguageProvider(projectContainer, octokit));
-	context.subscriptions.push(registerCommands(projectContainer, octokit));
+	context.subscriptions.push(registerLanguageProvider(projectContainer, octokit, githubData));
+	context.subscriptions.push(registerCommands(projectContainer, octokit, kernel, parameters, watcher));
 }
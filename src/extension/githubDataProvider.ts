@@ -3,7 +3,9 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as vscode from 'vscode';
 import { OctokitProvider } from "./octokitProvider.js";
+import { QueryTarget } from "./project.js";
 import { RepoInfo } from "./utils.js";
 
 export type LabelInfo = {
@@ -13,6 +15,7 @@ export type LabelInfo = {
 };
 
 export type MilestoneInfo = {
+	number: number;
 	title: string;
 	state: string;
 	description: string;
@@ -30,11 +33,19 @@ export type UserInfo = {
 export class GithubData {
 
 	private readonly _cache = new Map<string, Promise<any[]>>();
+	private readonly _disposables: vscode.Disposable[] = [];
 
-	constructor(readonly octokitProvider: OctokitProvider) { }
+	constructor(readonly octokitProvider: OctokitProvider) {
+		// another account might see other data
+		this._disposables.push(octokitProvider.onDidChange(() => this._cache.clear()));
+	}
+
+	dispose(): void {
+		this._disposables.forEach(d => d.dispose());
+	}
 
-	private _getOrFetch<T>(type: string, info: RepoInfo, fetch: () => Promise<T[]>) {
-		const key = type + info.owner + info.repo;
+	private _getOrFetch<T>(type: string, info: RepoInfo, target: QueryTarget, fetch: () => Promise<T[]>) {
+		const key = [type, this.octokitProvider.resolveHost(target.host).webUrl, target.account, info.owner, info.repo].join('/');
 		let result = this._cache.get(key);
 		if (!result) {
 			result = fetch();
@@ -43,25 +54,25 @@ export class GithubData {
 		return result;
 	}
 
-	async getOrFetchLabels(info: RepoInfo): Promise<LabelInfo[]> {
-		return this._getOrFetch<LabelInfo>('labels', info, async () => {
-			const octokit = await this.octokitProvider.lib();
+	async getOrFetchLabels(info: RepoInfo, target: QueryTarget = {}): Promise<LabelInfo[]> {
+		return this._getOrFetch<LabelInfo>('labels', info, target, async () => {
+			const { octokit } = await this.octokitProvider.client(target);
 			const options = octokit.issues.listLabelsForRepo.endpoint.merge({ ...info });
 			return octokit.paginate<LabelInfo>((<any>options));
 		});
 	}
 
-	async getOrFetchMilestones(info: RepoInfo): Promise<MilestoneInfo[]> {
-		return this._getOrFetch<MilestoneInfo>('milestone', info, async () => {
-			const octokit = await this.octokitProvider.lib();
+	async getOrFetchMilestones(info: RepoInfo, target: QueryTarget = {}): Promise<MilestoneInfo[]> {
+		return this._getOrFetch<MilestoneInfo>('milestone', info, target, async () => {
+			const { octokit } = await this.octokitProvider.client(target);
 			const options = octokit.issues.listMilestones.endpoint.merge({ ...info, state: 'all', sort: 'due_on' });
 			return octokit.paginate<MilestoneInfo>((<any>options));
 		});
 	}
 
-	async getOrFetchUsers(info: RepoInfo): Promise<UserInfo[]> {
-		return this._getOrFetch<UserInfo>('user', info, async () => {
-			const octokit = await this.octokitProvider.lib();
+	async getOrFetchUsers(info: RepoInfo, target: QueryTarget = {}): Promise<UserInfo[]> {
+		return this._getOrFetch<UserInfo>('user', info, target, async () => {
+			const { octokit } = await this.octokitProvider.client(target);
 			const options = octokit.repos.listContributors.endpoint.merge({ ...info });
 			return octokit.paginate<UserInfo>((<any>options));
 		});
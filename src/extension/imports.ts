@@ -0,0 +1,28 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// loads the files that `roots` import, and those that they import. Each file is loaded once and
+// files from `ignore` are never loaded, that ends cycles and keeps a notebook from importing itself
+export async function collectImports<T>(
+	roots: readonly T[],
+	ignore: Iterable<string>,
+	importsOf: (doc: T) => string[],
+	load: (file: string) => Promise<T[]>
+): Promise<T[]> {
+	const seen = new Set(ignore);
+	const result: T[] = [];
+	const queue = roots.flatMap(importsOf);
+	for (let file = queue.shift(); file !== undefined; file = queue.shift()) {
+		if (seen.has(file)) {
+			continue;
+		}
+		seen.add(file);
+		for (const doc of await load(file)) {
+			result.push(doc);
+			queue.push(...importsOf(doc));
+		}
+	}
+	return result;
+}
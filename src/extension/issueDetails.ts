@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Octokit } from '@octokit/rest';
+import { IssueDetails } from '../common/types.js';
+import { IssueRef } from './utils.js';
+
+// bodies are fetched as HTML so that the renderer doesn't need to render markdown
+const html = { mediaType: { format: 'html' } };
+
+// GitHub doesn't return more than that per page
+const maxPageSize = 100;
+
+export async function fetchIssueDetails(octokit: Octokit, issue: IssueRef, commentCount: number): Promise<IssueDetails> {
+	const { owner, repo, number: issue_number } = issue;
+	commentCount = Math.max(0, Math.min(Math.floor(commentCount), maxPageSize));
+
+	const [{ data }, timeline] = await Promise.all([
+		octokit.issues.get({ owner, repo, issue_number, ...html }),
+		octokit.paginate(octokit.issues.listEventsForTimeline, { owner, repo, issue_number, per_page: maxPageSize }),
+	]);
+
+	// the last comments, which might be spread over the last two pages
+	let comments: Awaited<ReturnType<Octokit['issues']['listComments']>>['data'] = [];
+	if (commentCount > 0 && data.comments > 0) {
+		const lastPage = Math.ceil(data.comments / commentCount);
+		const pages = lastPage > 1 && data.comments % commentCount !== 0 ? [lastPage - 1, lastPage] : [lastPage];
+		for (const page of pages) {
+			const response = await octokit.issues.listComments({ owner, repo, issue_number, per_page: commentCount, page, ...html });
+			comments = comments.concat(response.data);
+		}
+		comments = comments.slice(-commentCount);
+	}
+
+	const pullRequests = new Map<string, IssueDetails['pullRequests'][number]>();
+	for (const event of timeline) {
+		const source = 'source' in event ? event.source.issue : undefined;
+		if (event.event === 'cross-referenced' && source?.pull_request && !pullRequests.has(source.html_url)) {
+			pullRequests.set(source.html_url, { html_url: source.html_url, number: source.number, title: source.title, state: source.pull_request.merged_at ? 'merged' : source.state });
+		}
+	}
+
+	return {
+		bodyHtml: data.body_html ?? '',
+		comments: comments.map(comment => ({
+			id: comment.id,
+			html_url: comment.html_url,
+			user: comment.user?.login ?? '',
+			created_at: comment.created_at,
+			bodyHtml: comment.body_html ?? '',
+		})),
+		commentCount: data.comments,
+		pullRequests: [...pullRequests.values()],
+	};
+}
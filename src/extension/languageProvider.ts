@@ -5,13 +5,15 @@
 
 import * as vscode from 'vscode';
 import { withEmoji } from '../common/emoji.js';
+import { IssuesOutputMetadata, QueryCount } from '../common/types.js';
 import { GithubData } from './githubDataProvider.js';
 import { OctokitProvider } from './octokitProvider.js';
 import { LiteralSequenceNode, Node, NodeType, QualifiedValueNode, QueryDocumentNode, QueryNode, Utils } from './parser/nodes.js';
 import { Scanner, Token, TokenType } from './parser/scanner.js';
-import { QualifiedValueNodeSchema, SymbolInfo, ValuePlaceholderType } from './parser/symbols.js';
+import { resolveRelativeDate } from './parser/relativeDates.js';
+import { QualifiedValueNodeSchema, QueryDirectiveSchema, SymbolInfo, ValuePlaceholderType, ValueType, fillInArguments } from './parser/symbols.js';
 import { Code, ValidationError, validateQueryDocument } from './parser/validation.js';
-import { Project, ProjectContainer } from './project.js';
+import { Project, ProjectContainer, ProjectDocument, QueryTarget } from './project.js';
 import { RepoInfo, getAllRepos } from './utils.js';
 
 const selector = { language: 'github-issues' };
@@ -27,8 +29,18 @@ export class HoverProvider implements vscode.HoverProvider {
 		const parents: Node[] = [];
 		const node = Utils.nodeAt(query, offset, parents);
 
+		const def = node?._type === NodeType.VariableName ? Utils.parameterScope(query, node) : undefined;
+		if (node && def) {
+			return new vscode.Hover(vscode.l10n.t('Parameter of `{0}`', Utils.print(def.name, query.text, () => undefined)), project.rangeOf(node));
+		}
+
 		if (node?._type === NodeType.VariableName) {
 
+			const parameter = project.symbols.getFirst(node.value);
+			if (parameter && project.isParameter(parameter)) {
+				return new vscode.Hover(vscode.l10n.t('Notebook parameter, value is `{0}`', parameter.value || vscode.l10n.t('not set')), project.rangeOf(node));
+			}
+
 			let info: SymbolInfo | undefined;
 			for (let candidate of project.symbols.getAll(node.value)) {
 				//
@@ -45,9 +57,23 @@ export class HoverProvider implements vscode.HoverProvider {
 					info = candidate;
 				}
 			}
+			if (info?.parameters) {
+				// macro, show the value with the arguments of this call
+				const call = parents[parents.length - 2];
+				const args = call?._type === NodeType.MacroCall
+					? call.arguments.nodes.map(arg => Utils.print(arg, query.text, (name, args) => project.symbols.resolve(name, args)))
+					: undefined;
+				const signature = `${info.name}(${info.parameters.map(param => param.name).join(', ')})`;
+				return new vscode.Hover(`\`${signature}\` \`${fillInArguments(info, args)}\``, project.rangeOf(node));
+			}
 			return new vscode.Hover(`\`${info?.value}\`${info?.type ? ` (${info.type})` : ''}`, project.rangeOf(node));
 		}
 
+		if (node?._type === NodeType.Date) {
+			const resolved = resolveRelativeDate(node.value);
+			return resolved && new vscode.Hover(vscode.l10n.t('`{0}` is `{1}` today', node.value, resolved), project.rangeOf(node)) || undefined;
+		}
+
 		if (node?._type === NodeType.Literal && parents[parents.length - 2]?._type === NodeType.QualifiedValue) {
 			const info = QualifiedValueNodeSchema.get(node.value);
 			return info?.description && new vscode.Hover(info.description) || undefined;
@@ -119,9 +145,17 @@ export class DefinitionProvider implements vscode.DefinitionProvider {
 		if (node?._type !== NodeType.VariableName) {
 			return;
 		}
+		const def = Utils.parameterScope(query, node);
+		if (def) {
+			// parameter of a macro
+			const param = def.parameters!.nodes.find(param => param._type === NodeType.Literal && `$${param.value}` === node.value)!;
+			return new vscode.Location(document.uri, project.rangeOf(param, document.uri));
+		}
 		const result: vscode.Location[] = [];
 		for (const symbol of project.symbols.getAll(node.value)) {
-			result.push(project.getLocation(symbol.def));
+			if (!project.isParameter(symbol)) {
+				result.push(project.getLocation(symbol.def));
+			}
 		}
 		return result;
 	}
@@ -164,7 +198,7 @@ export class RenameProvider implements vscode.RenameProvider {
 		const query = project.getOrCreate(document);
 		const offset = document.offsetAt(position);
 		const node = Utils.nodeAt(query, offset);
-		if (node?._type !== NodeType.VariableName) {
+		if (node?._type !== NodeType.VariableName && !(node?._type === NodeType.Literal && Utils.parameterScope(query, node))) {
 			throw Error('Only variables names can be renamed');
 		}
 		return project.rangeOf(node, document.uri);
@@ -176,6 +210,29 @@ export class RenameProvider implements vscode.RenameProvider {
 		const offset = document.offsetAt(position);
 		const node = Utils.nodeAt(query, offset);
 
+		const def = (node?._type === NodeType.VariableName || node?._type === NodeType.Literal) && Utils.parameterScope(query, node);
+		if (node && def) {
+			// rename parameter, only inside the macro that declares it
+			const oldName = node._type === NodeType.VariableName ? node.value : `$${node.value}`;
+			newName = newName.replace(/^\$/, '');
+			const scanner = new Scanner().reset(`$${newName}`);
+			if (scanner.next().type !== TokenType.VariableName || scanner.next().type !== TokenType.EOF) {
+				throw new Error(`invalid name: ${newName}`);
+			}
+			const edit = new vscode.WorkspaceEdit();
+			for (let param of def.parameters!.nodes) {
+				if (param._type === NodeType.Literal && `$${param.value}` === oldName) {
+					edit.replace(document.uri, project.rangeOf(param, document.uri), newName);
+				}
+			}
+			Utils.walk(def.value, candidate => {
+				if (candidate._type === NodeType.VariableName && candidate.value === oldName) {
+					edit.replace(document.uri, project.rangeOf(candidate, document.uri), `$${newName}`);
+				}
+			});
+			return edit;
+		}
+
 		if (node?._type === NodeType.VariableName) {
 			// rename variable
 			if (!newName.startsWith('$')) {
@@ -188,7 +245,11 @@ export class RenameProvider implements vscode.RenameProvider {
 			const edit = new vscode.WorkspaceEdit();
 			for (let entry of project.all()) {
 				Utils.walk(entry.node, candidate => {
-					if (candidate._type === NodeType.VariableName && candidate.value === node.value) {
+					// parameters of macros with the same name are not the same
+					if (candidate._type === NodeType.VariableName && candidate.value === node.value && !Utils.parameterScope(entry.node, candidate)) {
+						if (project.isReadonly(entry.doc.uri)) {
+							throw new Error(`cannot rename, ${node.value} is used by a notebook that isn't open`);
+						}
 						edit.replace(entry.doc.uri, project.rangeOf(candidate), newName);
 					}
 				});
@@ -198,6 +259,258 @@ export class RenameProvider implements vscode.RenameProvider {
 	}
 }
 
+export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+
+	constructor(readonly container: ProjectContainer) { }
+
+	provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+		const project = this.container.lookupProject(document.uri);
+		const query = project.getOrCreate(document);
+		const heading = precedingHeading(document);
+
+		const result: vscode.DocumentSymbol[] = [];
+		for (const node of query.nodes) {
+			if (node._type === NodeType.VariableDefinition) {
+				const name = node.parameters
+					? `${node.name.value}${Utils.print(node.parameters, query.text, () => undefined)}`
+					: node.name.value;
+				result.push(new vscode.DocumentSymbol(
+					name,
+					Utils.print(node.value, query.text, () => undefined),
+					node.parameters ? vscode.SymbolKind.Function : vscode.SymbolKind.Variable,
+					project.rangeOf(node, document.uri),
+					project.rangeOf(node.name, document.uri)
+				));
+
+			} else if (node._type === NodeType.OrExpression || (node._type === NodeType.Query && !isDirectivesOnly(node))) {
+				const range = project.rangeOf(node, document.uri);
+				result.push(new vscode.DocumentSymbol(
+					document.getText(range).replace(/\s+/g, ' '),
+					heading ?? '',
+					vscode.SymbolKind.Event,
+					range,
+					range
+				));
+			}
+		}
+		return result;
+	}
+}
+
+export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+
+	constructor(readonly container: ProjectContainer) { }
+
+	provideWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+		const result: vscode.SymbolInformation[] = [];
+		const seen = new Set<string>();
+		const needle = query.toLowerCase().replace(/^\$/, '');
+
+		for (const project of this.container.all()) {
+			for (const symbol of project.symbols.all()) {
+				if (project.isParameter(symbol) || !symbol.name.toLowerCase().includes(needle)) {
+					continue;
+				}
+				const location = project.getLocation(symbol.def.name);
+				const key = `${location.uri.toString()}#${location.range.start.line},${location.range.start.character}`;
+				if (seen.has(key)) {
+					// imported by more than one notebook
+					continue;
+				}
+				seen.add(key);
+				const path = location.uri.path;
+				result.push(new vscode.SymbolInformation(
+					symbol.name,
+					symbol.parameters ? vscode.SymbolKind.Function : vscode.SymbolKind.Variable,
+					path.substring(path.lastIndexOf('/') + 1),
+					location
+				));
+			}
+		}
+		return result;
+	}
+}
+
+function findCell(document: vscode.TextDocument): vscode.NotebookCell | undefined {
+	for (const notebook of vscode.workspace.notebookDocuments) {
+		const cell = notebook.getCells().find(cell => cell.document === document);
+		if (cell) {
+			return cell;
+		}
+	}
+	return undefined;
+}
+
+// the last heading of the closest markdown cell above the cell of a document
+function precedingHeading(document: vscode.TextDocument): string | undefined {
+	const cell = findCell(document);
+	if (!cell) {
+		return undefined;
+	}
+	const notebook = cell.notebook;
+	for (let i = cell.index - 1; i >= 0; i--) {
+		const candidate = notebook.cellAt(i);
+		if (candidate.kind !== vscode.NotebookCellKind.Markup) {
+			continue;
+		}
+		const headings = [...candidate.document.getText().matchAll(/^#{1,6}\s+(.+)$/gm)];
+		if (headings.length > 0) {
+			return headings[headings.length - 1][1].trim();
+		}
+	}
+	return undefined;
+}
+
+function isDirectivesOnly(query: QueryNode): boolean {
+	return query.nodes.every(node => node._type === NodeType.QualifiedValue && QueryDirectiveSchema.has(node.qualifier.value));
+}
+
+export class InlayHintsProvider implements vscode.InlayHintsProvider {
+
+	private static readonly _maxLength = 40;
+
+	private readonly _onDidChangeInlayHints = new vscode.EventEmitter<void>();
+	readonly onDidChangeInlayHints = this._onDidChangeInlayHints.event;
+
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	constructor(readonly container: ProjectContainer) {
+		this._disposables.push(container.onDidChange(() => this._onDidChangeInlayHints.fire()));
+		this._disposables.push(vscode.workspace.onDidChangeNotebookDocument(e => {
+			if (e.cellChanges.some(change => change.outputs)) {
+				this._onDidChangeInlayHints.fire();
+			}
+		}));
+	}
+
+	dispose(): void {
+		this._onDidChangeInlayHints.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+
+	provideInlayHints(document: vscode.TextDocument, range: vscode.Range): vscode.InlayHint[] {
+		const project = this.container.lookupProject(document.uri);
+		const query = project.getOrCreate(document);
+		const variableValue = (name: string, args?: string[]) => project.symbols.resolve(name, args);
+
+		const result: vscode.InlayHint[] = [];
+		const addHint = (node: Node, value: string) => {
+			const position = document.positionAt(node.end);
+			if (range.contains(position)) {
+				result.push(this._hint(position, value));
+			}
+		};
+
+		Utils.walk(query, (node, parent) => {
+			if (node._type === NodeType.MacroCall) {
+				// $team(alice) = involves:alice
+				const value = Utils.print(node, query.text, variableValue);
+				if (value !== query.text.substring(node.start, node.end)) {
+					addHint(node, value);
+				}
+
+			} else if (node._type === NodeType.VariableName && parent?._type !== NodeType.VariableDefinition && parent?._type !== NodeType.MacroCall && !Utils.parameterScope(query, node)) {
+				const value = project.symbols.resolve(node.value);
+				if (value !== undefined) {
+					addHint(node, value);
+				}
+
+			} else if (node._type === NodeType.Date) {
+				const value = resolveRelativeDate(node.value);
+				if (value) {
+					addHint(node, value);
+				}
+			}
+		});
+
+		// matches of the last run at the end of each query
+		const cell = findCell(document);
+		for (const node of query.nodes) {
+			const count = cell && resultCount(query, node, cell);
+			const position = document.lineAt(document.positionAt(node.end).line).range.end;
+			if (count !== undefined && range.contains(position)) {
+				const hint = new vscode.InlayHint(position, formatResultCount(count));
+				hint.paddingLeft = true;
+				result.push(hint);
+			}
+		}
+		return result;
+	}
+
+	private _hint(position: vscode.Position, value: string): vscode.InlayHint {
+		const label = value.length > InlayHintsProvider._maxLength
+			? `${value.substring(0, InlayHintsProvider._maxLength)}…`
+			: value;
+		const hint = new vscode.InlayHint(position, `= ${label}`);
+		hint.tooltip = value;
+		hint.paddingLeft = true;
+		return hint;
+	}
+}
+
+export class CodeLensProvider implements vscode.CodeLensProvider {
+
+	private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+	readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	constructor(readonly container: ProjectContainer) {
+		this._disposables.push(container.onDidChange(() => this._onDidChangeCodeLenses.fire()));
+		this._disposables.push(vscode.workspace.onDidChangeNotebookDocument(e => {
+			if (e.cellChanges.some(change => change.outputs)) {
+				this._onDidChangeCodeLenses.fire();
+			}
+		}));
+	}
+
+	dispose(): void {
+		this._onDidChangeCodeLenses.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+
+	provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+		const cell = findCell(document);
+		if (!cell) {
+			return [];
+		}
+		const project = this.container.lookupProject(document.uri);
+		const query = project.getOrCreate(document);
+
+		const result: vscode.CodeLens[] = [];
+		for (const node of query.nodes) {
+			if (node._type !== NodeType.OrExpression && (node._type !== NodeType.Query || isDirectivesOnly(node))) {
+				continue;
+			}
+			const range = project.rangeOf(node, document.uri);
+			const count = resultCount(query, node, cell);
+			if (count !== undefined) {
+				result.push(new vscode.CodeLens(range, { title: formatResultCount(count), command: '' }));
+			}
+			result.push(new vscode.CodeLens(range, { title: vscode.l10n.t('Run Only This'), command: 'github-issues.runQuery', arguments: [cell, node.start] }));
+			result.push(new vscode.CodeLens(range, { title: vscode.l10n.t('Open on GitHub'), command: 'github-issues.openQueryUrl', arguments: [cell, node.start] }));
+			result.push(new vscode.CodeLens(range, { title: vscode.l10n.t('Copy as URL'), command: 'github-issues.copyQueryUrl', arguments: [cell, node.start] }));
+		}
+		return result;
+	}
+}
+
+// matches of a query in the last run of its cell
+function resultCount(query: QueryDocumentNode, node: Node, cell: vscode.NotebookCell): QueryCount | undefined {
+	const counts = (<IssuesOutputMetadata | undefined>cell.outputs[0]?.metadata)?.queryCounts;
+	if (!counts || (node._type !== NodeType.Query && node._type !== NodeType.OrExpression)) {
+		return undefined;
+	}
+	return counts[query.nodes.indexOf(node)];
+}
+
+function formatResultCount({ count, atMost }: QueryCount): string {
+	if (atMost) {
+		return vscode.l10n.t('up to {0} results', count.toLocaleString());
+	}
+	return count === 1 ? vscode.l10n.t('1 result') : vscode.l10n.t('{0} results', count.toLocaleString());
+}
+
 export class FormattingProvider implements vscode.DocumentRangeFormattingEditProvider, vscode.OnTypeFormattingEditProvider {
 
 	constructor(readonly container: ProjectContainer) { }
@@ -260,7 +573,8 @@ export class FormattingProvider implements vscode.DocumentRangeFormattingEditPro
 			return `${this._printForFormatting(query, node.left)} OR ${this._printForFormatting(query, node.right)}`;
 		} else if (node._type === NodeType.VariableDefinition) {
 			// special...
-			return `${this._printForFormatting(query, node.name)}=${this._printForFormatting(query, node.value)}`;
+			const parameters = node.parameters ? this._printForFormatting(query, node.parameters) : '';
+			return `${this._printForFormatting(query, node.name)}${parameters}=${this._printForFormatting(query, node.value)}`;
 		} else {
 			return Utils.print(node, query.text, () => undefined);
 		}
@@ -328,9 +642,21 @@ export class CompletionItemProvider implements vscode.CompletionItemProvider {
 					}
 				}
 			}
+			if (info?.type === ValueType.Date) {
+				result.push(...relativeDateCompletions({ inserting, replacing }));
+			}
 			return result;
 		}
 
+		if ((parent?._type === NodeType.Compare || parent?._type === NodeType.Range) && node._type === NodeType.Missing) {
+			// created:>| or created:2020-01-01..|
+			const qualified = parents[parents.length - 3];
+			if (qualified?._type === NodeType.QualifiedValue && QualifiedValueNodeSchema.get(qualified.qualifier.value)?.type === ValueType.Date) {
+				const range = new vscode.Range(position, position);
+				return relativeDateCompletions({ inserting: range, replacing: range });
+			}
+		}
+
 		if (node?._type === NodeType.QueryDocument || node?._type === NodeType.Query || node._type === NodeType.Literal || node._type === NodeType.VariableName) {
 			const result: vscode.CompletionItem[] = [];
 
@@ -345,6 +671,19 @@ export class CompletionItemProvider implements vscode.CompletionItemProvider {
 
 			// all variables
 			for (let symbol of project.symbols.all()) {
+				if (symbol.parameters) {
+					// macro, insert with placeholders for the arguments
+					const snippet = new vscode.SnippetString().appendText(`${symbol.name}(`);
+					symbol.parameters.forEach((param, i) => {
+						snippet.appendText(i > 0 ? ', ' : '').appendPlaceholder(param.name);
+					});
+					result.push({
+						label: { label: symbol.name, detail: `(${symbol.parameters.map(param => param.name).join(', ')})`, description: symbol.value },
+						kind: vscode.CompletionItemKind.Function,
+						insertText: snippet.appendText(')'),
+					});
+					continue;
+				}
 				result.push({
 					label: { label: symbol.name, description: symbol.type ? `${symbol.value} (${symbol.type})` : symbol.value },
 					kind: vscode.CompletionItemKind.Variable,
@@ -355,6 +694,15 @@ export class CompletionItemProvider implements vscode.CompletionItemProvider {
 	}
 }
 
+function relativeDateCompletions(range: { inserting: vscode.Range, replacing: vscode.Range; }): vscode.CompletionItem[] {
+	return ['@today', '@yesterday', '@today-7d', '@today-1m', '@monday', '@monday-1w'].map((value, i) => ({
+		label: { label: value, description: resolveRelativeDate(value) },
+		kind: vscode.CompletionItemKind.Constant,
+		sortText: String.fromCharCode(0) + i,
+		range
+	}));
+}
+
 export class QuickFixProvider implements vscode.CodeActionProvider {
 
 	provideCodeActions(document: vscode.TextDocument, _range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext) {
@@ -578,6 +926,10 @@ export class VariableNamesSourceAction implements vscode.CodeActionProvider {
 		// (1) find all defined variables, map them onto upper-cased name
 		const defs = new Map<string, string>();
 		for (let entry of project.all()) {
+			if (project.isReadonly(entry.doc.uri)) {
+				// variables of notebooks that aren't open can't be renamed
+				continue;
+			}
 			Utils.walk(entry.node, node => {
 				switch (node._type) {
 					case NodeType.VariableDefinition:
@@ -602,6 +954,9 @@ export class VariableNamesSourceAction implements vscode.CodeActionProvider {
 		// (3) create edits for all occurrences
 		const edit = new vscode.WorkspaceEdit();
 		for (let entry of project.all()) {
+			if (project.isReadonly(entry.doc.uri)) {
+				continue;
+			}
 			Utils.walk(entry.node, candidate => {
 				if (candidate._type === NodeType.VariableName) {
 					const newName = defs.get(candidate.value);
@@ -649,8 +1004,8 @@ export class GithubOrgCompletions implements vscode.CompletionItemProvider {
 		const replacing = new vscode.Range(document.positionAt(qualified.value.start), document.positionAt(qualified.value.end));
 		const range = { inserting, replacing };
 
-		const octokit = await this.octokitProvider.lib();
-		if (!this.octokitProvider.isAuthenticated) {
+		const { octokit, isAuthenticated } = await this.octokitProvider.client(this.container.documentTarget(document));
+		if (!isAuthenticated) {
 			return;
 		}
 
@@ -701,7 +1056,7 @@ export class GithubRepoSearchCompletions implements vscode.CompletionItemProvide
 
 		// craft repo-query
 		const len = document.offsetAt(position) - qualified.value.start;
-		let q = Utils.print(qualified.value, doc.text, name => project.symbols.getFirst(name)?.value).substr(0, len);
+		let q = Utils.print(qualified.value, doc.text, (name, args) => project.symbols.resolve(name, args)).substr(0, len);
 		if (!q) {
 			return new vscode.CompletionList([], true);
 		}
@@ -710,7 +1065,7 @@ export class GithubRepoSearchCompletions implements vscode.CompletionItemProvide
 			q = `org:${q.substr(0, idx)} ${q.substr(idx + 1)}`;
 		}
 
-		const octokit = await this.octokitProvider.lib();
+		const { octokit } = await this.octokitProvider.client(this.container.documentTarget(document));
 		const repos = await octokit.search.repos({ q, per_page: 10 });
 
 		// create completion items
@@ -781,6 +1136,7 @@ export class GithubPlaceholderCompletions implements vscode.CompletionItemProvid
 		}
 
 		const repos = getAllRepos(project);
+		const target = this.container.documentTarget(document);
 		const info = QualifiedValueNodeSchema.get(qualified.qualifier.value);
 
 		let range = { inserting: new vscode.Range(position, position), replacing: new vscode.Range(position, position) };
@@ -791,15 +1147,15 @@ export class GithubPlaceholderCompletions implements vscode.CompletionItemProvid
 		}
 
 		if (info?.placeholderType === ValuePlaceholderType.Label || sequence) {
-			return this._completeLabels(repos, literal ? undefined : sequence, range);
+			return this._completeLabels(repos, target, literal ? undefined : sequence, range);
 		} else if (info?.placeholderType === ValuePlaceholderType.Milestone) {
-			return this._completeMilestones(repos, range);
+			return this._completeMilestones(repos, target, range);
 		} else if (info?.placeholderType === ValuePlaceholderType.Username) {
-			return this._completeUsernames(repos, range);
+			return this._completeUsernames(repos, target, range);
 		}
 	}
 
-	private async _completeLabels(repos: Iterable<RepoInfo>, sequence: LiteralSequenceNode | undefined, range: { inserting: vscode.Range, replacing: vscode.Range; }) {
+	private async _completeLabels(repos: Iterable<RepoInfo>, target: QueryTarget, sequence: LiteralSequenceNode | undefined, range: { inserting: vscode.Range, replacing: vscode.Range; }) {
 		const result = new Map<string, vscode.CompletionItem>();
 
 		// label:foo,bar,|
@@ -807,7 +1163,7 @@ export class GithubPlaceholderCompletions implements vscode.CompletionItemProvid
 
 		for (let info of repos) {
 
-			const labels = await this._githubData.getOrFetchLabels(info);
+			const labels = await this._githubData.getOrFetchLabels(info, target);
 			for (const label of labels) {
 
 				if (isUseInSequence?.has(label.name)) {
@@ -835,12 +1191,12 @@ export class GithubPlaceholderCompletions implements vscode.CompletionItemProvid
 		return [...result.values()];
 	}
 
-	private async _completeMilestones(repos: Iterable<RepoInfo>, range?: { inserting: vscode.Range, replacing: vscode.Range; }) {
+	private async _completeMilestones(repos: Iterable<RepoInfo>, target: QueryTarget, range?: { inserting: vscode.Range, replacing: vscode.Range; }) {
 		const result = new Map<string, vscode.CompletionItem>();
 
 		for (let info of repos) {
 
-			const milestones = await this._githubData.getOrFetchMilestones(info);
+			const milestones = await this._githubData.getOrFetchMilestones(info, target);
 			for (let milestone of milestones) {
 				if (milestone.state === 'closed') {
 					continue;
@@ -864,10 +1220,10 @@ export class GithubPlaceholderCompletions implements vscode.CompletionItemProvid
 		return [...result.values()];
 	}
 
-	private async _completeUsernames(repos: Iterable<RepoInfo>, range?: { inserting: vscode.Range, replacing: vscode.Range; }) {
+	private async _completeUsernames(repos: Iterable<RepoInfo>, target: QueryTarget, range?: { inserting: vscode.Range, replacing: vscode.Range; }) {
 		const result = new Map<string, vscode.CompletionItem>();
 		for (let info of repos) {
-			for (let user of await this._githubData.getOrFetchUsers(info)) {
+			for (let user of await this._githubData.getOrFetchUsers(info, target)) {
 				if (!result.has(user.login)) {
 					result.set(user.login, {
 						label: user.login,
@@ -910,12 +1266,17 @@ class LanguageValidationDiagnostic extends vscode.Diagnostic {
 			case Code.ValueUnknown: return vscode.l10n.t('Unknown value \'{0}\', expected one of \'{1}\'', error.actual, Array.from(error.expected).map(set => [...set.entries]).flat().join(', '));
 			case Code.SequenceNotAllowed: return vscode.l10n.t(`Sequence of values is not allowed`);
 			case Code.RangeMixesTypes: return vscode.l10n.t('This range uses mixed values: {0} and {1}`', error.valueA!, error.valueB!);
+			case Code.GroupNotClosed: return vscode.l10n.t("Expected ')'");
+			case Code.GroupNotOpened: return vscode.l10n.t("Unexpected ')'");
+			case Code.ArgumentListNotClosed: return vscode.l10n.t("Expected ')' to close the argument list");
+			case Code.ArgumentCountMismatch: return vscode.l10n.t('Expected {0} arguments, but got {1}', error.expected, error.actual);
+			case Code.TooManyRequests: return vscode.l10n.t('This query needs {0} search requests, more than the configured maximum of {1}', error.count, error.limit);
 		}
 	}
 
 	readonly docVersion: number;
 
-	constructor(readonly error: ValidationError, project: Project, doc: vscode.TextDocument) {
+	constructor(readonly error: ValidationError, project: Project, doc: ProjectDocument) {
 		super(project.rangeOf(error.node), LanguageValidationDiagnostic.asMessage(error));
 
 		this.code = error.code;
@@ -932,6 +1293,10 @@ class LanguageValidationDiagnostic extends vscode.Diagnostic {
 		if (error.code === Code.NodeMissing && error.hint) {
 			this.severity = vscode.DiagnosticSeverity.Information;
 		}
+
+		if (error.code === Code.TooManyRequests) {
+			this.severity = vscode.DiagnosticSeverity.Warning;
+		}
 	}
 }
 
@@ -949,8 +1314,13 @@ export class LanguageValidation extends IProjectValidation {
 		}
 
 		for (let { node, doc } of project.all()) {
+			if (project.isImported(doc.uri)) {
+				// imported documents only contribute variables
+				continue;
+			}
 			const newDiagnostics: vscode.Diagnostic[] = [];
-			for (let error of validateQueryDocument(node, project.symbols)) {
+			const maxRequests = vscode.workspace.getConfiguration('github-issues').get<number>('maxSearchRequests', 10);
+			for (let error of validateQueryDocument(node, project.symbols, maxRequests)) {
 				newDiagnostics.push(new LanguageValidationDiagnostic(error, project, doc));
 			}
 			collection.set(doc.uri, newDiagnostics);
@@ -960,7 +1330,7 @@ export class LanguageValidation extends IProjectValidation {
 
 export class GithubValidation extends IProjectValidation {
 
-	constructor(readonly githubData: GithubData, readonly octokit: OctokitProvider) {
+	constructor(readonly container: ProjectContainer, readonly githubData: GithubData, readonly octokit: OctokitProvider) {
 		super();
 	}
 
@@ -980,8 +1350,12 @@ export class GithubValidation extends IProjectValidation {
 		}
 
 		for (let { node: queryDoc, doc } of project.all()) {
+			if (project.isImported(doc.uri)) {
+				continue;
+			}
 			const newDiagnostics: vscode.Diagnostic[] = [];
 			const work: Promise<any>[] = [];
+			const target = this.container.documentTarget(doc);
 			Utils.walk(queryDoc, async (node, parent) => {
 				if (parent?._type !== NodeType.Query || node._type !== NodeType.QualifiedValue || node.value._type === NodeType.Missing) {
 					return;
@@ -991,10 +1365,10 @@ export class GithubValidation extends IProjectValidation {
 
 				const validateValue = async (valueNode: Utils.PrintableNode) => {
 
-					const value = Utils.print(valueNode, queryDoc.text, name => project.symbols.getFirst(name)?.value).replace(/^"(.*)"$/, '$1');
+					const value = Utils.print(valueNode, queryDoc.text, (name, args) => project.symbols.resolve(name, args)).replace(/^"(.*)"$/, '$1');
 
 					if (info?.placeholderType === ValuePlaceholderType.Label) {
-						work.push(this._checkLabels(value, repos).then(missing => {
+						work.push(this._checkLabels(value, repos, target).then(missing => {
 							if (missing.length === repos.length) {
 								const diag = new vscode.Diagnostic(project.rangeOf(valueNode), vscode.l10n.t("Label '{0}' is unknown", value), vscode.DiagnosticSeverity.Warning);
 								newDiagnostics.push(diag);
@@ -1005,7 +1379,7 @@ export class GithubValidation extends IProjectValidation {
 						}));
 
 					} else if (info?.placeholderType === ValuePlaceholderType.Milestone) {
-						work.push(this._checkMilestones(value, repos).then(missing => {
+						work.push(this._checkMilestones(value, repos, target).then(missing => {
 							if (missing.length === repos.length) {
 								const diag = new vscode.Diagnostic(project.rangeOf(valueNode), vscode.l10n.t("Milestone '{0}' is unknown", value), vscode.DiagnosticSeverity.Warning);
 								newDiagnostics.push(diag);
@@ -1017,8 +1391,8 @@ export class GithubValidation extends IProjectValidation {
 
 					} else if (info?.placeholderType === ValuePlaceholderType.Username) {
 						if (value === '@me') {
-							work.push(this.octokit.lib().then(() => {
-								if (!this.octokit.isAuthenticated) {
+							work.push(this.octokit.client(target).then(({ isAuthenticated }) => {
+								if (!isAuthenticated) {
 									const diag = new vscode.Diagnostic(project.rangeOf(valueNode), vscode.l10n.t('{0} requires that you are logged in', '@me'), vscode.DiagnosticSeverity.Warning);
 									diag.code = Code.GitHubLoginNeeded;
 									newDiagnostics.push(diag);
@@ -1048,10 +1422,10 @@ export class GithubValidation extends IProjectValidation {
 		}
 	}
 
-	private async _checkLabels(label: string, repos: RepoInfo[]) {
+	private async _checkLabels(label: string, repos: RepoInfo[], target: QueryTarget) {
 		let result: RepoInfo[] = [];
 		for (const info of repos) {
-			const labels = await this.githubData.getOrFetchLabels(info);
+			const labels = await this.githubData.getOrFetchLabels(info, target);
 			const found = labels.find(info => info.name === label);
 			if (!found) {
 				result.push(info);
@@ -1060,10 +1434,10 @@ export class GithubValidation extends IProjectValidation {
 		return result;
 	}
 
-	private async _checkMilestones(milestone: string, repos: RepoInfo[]) {
+	private async _checkMilestones(milestone: string, repos: RepoInfo[], target: QueryTarget) {
 		let result: RepoInfo[] = [];
 		for (let info of repos) {
-			const labels = await this.githubData.getOrFetchMilestones(info);
+			const labels = await this.githubData.getOrFetchMilestones(info, target);
 			const found = labels.find(info => info.title === milestone);
 			if (!found) {
 				result.push(info);
@@ -1104,7 +1478,7 @@ export class Validation {
 			}
 		}));
 		this._disposables.push(vscode.authentication.onDidChangeSessions(e => {
-			if (e.provider.id === 'github') {
+			if (e.provider.id === octokit.host.authProviderId) {
 				validateAllSoon();
 			}
 		}));
@@ -1119,6 +1493,11 @@ export class Validation {
 		this._disposables.push(octokit.onDidChange(() => {
 			validateAllSoon();
 		}));
+		this._disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('github-issues.maxSearchRequests')) {
+				validateAllSoon();
+			}
+		}));
 	}
 
 	dispose(): void {
@@ -1126,10 +1505,9 @@ export class Validation {
 	}
 }
 
-export function registerLanguageProvider(container: ProjectContainer, octokit: OctokitProvider): vscode.Disposable {
+export function registerLanguageProvider(container: ProjectContainer, octokit: OctokitProvider, githubData: GithubData): vscode.Disposable {
 
 	const disposables: vscode.Disposable[] = [];
-	const githubData = new GithubData(octokit);
 
 	vscode.languages.setLanguageConfiguration(selector.language, {
 		wordPattern: /(-?\d*\.\d\w*)|([^\`\~\!\@\#\%\^\&\*\(\)\-\=\+\[\{\]\}\\\|\;\:\'\"\,\.\<\>\/\?\s]+)/g,
@@ -1142,6 +1520,12 @@ export function registerLanguageProvider(container: ProjectContainer, octokit: O
 	disposables.push(vscode.languages.registerDefinitionProvider(selector, new DefinitionProvider(container)));
 	disposables.push(vscode.languages.registerReferenceProvider(selector, new ReferenceProvider(container)));
 	disposables.push(vscode.languages.registerRenameProvider(selector, new RenameProvider(container)));
+	disposables.push(vscode.languages.registerDocumentSymbolProvider(selector, new DocumentSymbolProvider(container)));
+	disposables.push(vscode.languages.registerWorkspaceSymbolProvider(new WorkspaceSymbolProvider(container)));
+	const inlayHints = new InlayHintsProvider(container);
+	disposables.push(inlayHints, vscode.languages.registerInlayHintsProvider(selector, inlayHints));
+	const codeLenses = new CodeLensProvider(container);
+	disposables.push(codeLenses, vscode.languages.registerCodeLensProvider(selector, codeLenses));
 	disposables.push(vscode.languages.registerCodeActionsProvider(selector, new QuickFixProvider(), { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }));
 	disposables.push(vscode.languages.registerCodeActionsProvider(selector, new ExtractVariableProvider(container), { providedCodeActionKinds: [vscode.CodeActionKind.RefactorExtract] }));
 	disposables.push(vscode.languages.registerCodeActionsProvider({ ...selector, scheme: 'vscode-notebook-cell' }, new NotebookSplitOrIntoCellProvider(container), { providedCodeActionKinds: [vscode.CodeActionKind.Refactor] }));
@@ -1157,7 +1541,7 @@ export function registerLanguageProvider(container: ProjectContainer, octokit: O
 
 	disposables.push(new Validation(container, octokit, [
 		new LanguageValidation(),
-		new GithubValidation(githubData, octokit)
+		new GithubValidation(container, githubData, octokit)
 	]));
 
 	return vscode.Disposable.from(...disposables);
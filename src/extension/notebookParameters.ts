@@ -0,0 +1,195 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { GithubData } from './githubDataProvider.js';
+import { Node, NodeType, Utils } from './parser/nodes.js';
+import { QualifiedValueNodeSchema, ValuePlaceholderType } from './parser/symbols.js';
+import { ParameterValues, Project, ProjectContainer, QueryTarget } from './project.js';
+import { getAllRepos } from './utils.js';
+
+export function getParameterValues(notebook: vscode.NotebookDocument): ParameterValues {
+	return notebook.metadata?.parameters ?? {};
+}
+
+// notebook parameters are variables whose values are stored in the notebook metadata, values
+// are prompted for when running a cell that uses a parameter without value
+export class NotebookParameters {
+
+	constructor(
+		readonly container: ProjectContainer,
+		private readonly _githubData: GithubData
+	) { }
+
+	// asks for all missing values, false when that was cancelled
+	async promptMissing(notebook: vscode.NotebookDocument, cells: Iterable<vscode.NotebookCell>): Promise<boolean> {
+		let values = getParameterValues(notebook);
+		const project = this.container.lookupProject(notebook.uri);
+
+		const used = new Set<string>();
+		for (const cell of cells) {
+			collectVariables(project.getOrCreate(cell.document), project, used);
+		}
+		const missing = Object.keys(values).filter(name => !values[name] && used.has(name));
+		if (missing.length === 0) {
+			return true;
+		}
+		for (const name of missing) {
+			const value = await this.promptValue(notebook, name);
+			if (value === undefined) {
+				return false;
+			}
+			values = { ...values, [name]: value };
+		}
+		await this._update(notebook, values);
+		return true;
+	}
+
+	async pick(notebook: vscode.NotebookDocument): Promise<void> {
+		const values = getParameterValues(notebook);
+
+		type Item = vscode.QuickPickItem & { run(): Promise<ParameterValues | undefined>; };
+		const items: Item[] = Object.entries(values).map(([name, value]) => ({
+			label: name,
+			description: value || vscode.l10n.t('not set'),
+			run: async () => {
+				const newValue = await this.promptValue(notebook, name);
+				return newValue === undefined ? undefined : { ...values, [name]: newValue };
+			}
+		}));
+		items.push({
+			label: vscode.l10n.t('Add Parameter...'),
+			run: async () => {
+				const name = await vscode.window.showInputBox({
+					prompt: vscode.l10n.t('Name of the parameter, e.g. $MILESTONE'),
+					validateInput: value => /^\$?[_a-zA-Z][_a-zA-Z0-9]*$/.test(value) ? undefined : vscode.l10n.t('Not a valid variable name')
+				});
+				if (!name) {
+					return;
+				}
+				const variable = name.startsWith('$') ? name : `$${name}`;
+				const value = await this.promptValue(notebook, variable);
+				return { ...values, [variable]: value ?? '' };
+			}
+		});
+		if (Object.keys(values).length > 0) {
+			items.push({
+				label: vscode.l10n.t('Remove Parameters...'),
+				run: async () => {
+					const picks = await vscode.window.showQuickPick(Object.keys(values), { canPickMany: true, placeHolder: vscode.l10n.t('Select parameters to remove') });
+					if (!picks?.length) {
+						return;
+					}
+					const result = { ...values };
+					picks.forEach(name => delete result[name]);
+					return result;
+				}
+			});
+		}
+
+		const item = await vscode.window.showQuickPick(items, { placeHolder: vscode.l10n.t('Select a parameter to change its value') });
+		const newValues = await item?.run();
+		if (newValues) {
+			await this._update(notebook, newValues);
+		}
+	}
+
+	// any value can be typed, values that fit to the qualifiers the parameter is used with are suggested
+	async promptValue(notebook: vscode.NotebookDocument, name: string): Promise<string | undefined> {
+		const project = this.container.lookupProject(notebook.uri);
+		const current = getParameterValues(notebook)[name];
+
+		const picker = vscode.window.createQuickPick();
+		picker.title = vscode.l10n.t('Value of {0}', name);
+		picker.placeholder = current ? vscode.l10n.t('Current value is {0}', current) : vscode.l10n.t('Type or select a value');
+		picker.busy = true;
+
+		let suggestions: vscode.QuickPickItem[] = [];
+		const update = () => {
+			const typed = picker.value.trim();
+			picker.items = typed && !suggestions.some(item => item.label === typed)
+				? [{ label: typed }, ...suggestions]
+				: suggestions;
+		};
+		this._suggestions(project, this.container.notebookTarget(notebook), name).then(items => {
+			suggestions = items;
+			update();
+		}, err => {
+			console.warn(err);
+		}).finally(() => picker.busy = false);
+
+		const value = await new Promise<string | undefined>(resolve => {
+			picker.onDidChangeValue(update);
+			picker.onDidAccept(() => {
+				const [item] = picker.selectedItems;
+				resolve(item?.label ?? picker.value.trim());
+				picker.hide();
+			});
+			picker.onDidHide(() => {
+				resolve(undefined);
+				picker.dispose();
+			});
+			update();
+			picker.show();
+		});
+		return value && value.match(/\s/) && !value.startsWith('"') ? `"${value}"` : value;
+	}
+
+	private async _suggestions(project: Project, target: QueryTarget, name: string): Promise<vscode.QuickPickItem[]> {
+		const types = new Set<ValuePlaceholderType>();
+		for (const { node } of project.all()) {
+			Utils.walk(node, node => {
+				if (node._type === NodeType.QualifiedValue && node.value._type === NodeType.VariableName && node.value.value === name) {
+					const type = QualifiedValueNodeSchema.get(node.qualifier.value)?.placeholderType;
+					if (type) {
+						types.add(type);
+					}
+				}
+			});
+		}
+
+		const result = new Map<string, vscode.QuickPickItem>();
+		for (const info of getAllRepos(project)) {
+			if (types.has(ValuePlaceholderType.Milestone)) {
+				for (const milestone of await this._githubData.getOrFetchMilestones(info, target)) {
+					if (milestone.state !== 'closed' && !result.has(milestone.title)) {
+						result.set(milestone.title, { label: milestone.title, description: milestone.description });
+					}
+				}
+			}
+			if (types.has(ValuePlaceholderType.Username)) {
+				for (const user of await this._githubData.getOrFetchUsers(info, target)) {
+					if (!result.has(user.login)) {
+						result.set(user.login, { label: user.login });
+					}
+				}
+			}
+		}
+		return [...result.values()];
+	}
+
+	private async _update(notebook: vscode.NotebookDocument, values: ParameterValues): Promise<void> {
+		const { parameters: _parameters, ...metadata } = notebook.metadata;
+		const edit = new vscode.WorkspaceEdit();
+		edit.set(notebook.uri, [vscode.NotebookEdit.updateNotebookMetadata(Object.keys(values).length > 0 ? { ...metadata, parameters: values } : metadata)]);
+		await vscode.workspace.applyEdit(edit);
+		// queries and their validation use the new values
+		this.container.setParameters(notebook, values);
+	}
+}
+
+// names of all variables that a node uses, directly or via other variables
+function collectVariables(node: Node, project: Project, bucket: Set<string>): void {
+	Utils.walk(node, (node, parent) => {
+		if (node._type !== NodeType.VariableName || parent?._type === NodeType.VariableDefinition || bucket.has(node.value)) {
+			return;
+		}
+		bucket.add(node.value);
+		const symbol = project.symbols.getFirst(node.value);
+		if (symbol && !project.isParameter(symbol)) {
+			collectVariables(symbol.def.value, project, bucket);
+		}
+	});
+}
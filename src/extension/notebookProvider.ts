@@ -3,16 +3,43 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import { Octokit } from '@octokit/rest';
 import * as vscode from 'vscode';
-import { SearchIssuesAndPullRequestsResponseItemsItem } from '../common/types.js';
+import { fromNow } from '../common/time.js';
+import { ExtensionMessage, IssuesOutputMetadata, IssuesView, QueryCount, RendererMessage, ResultDiff, SearchIssuesAndPullRequestsResponseItemsItem } from '../common/types.js';
+import { BulkActions } from './bulkActions.js';
+import { firstCreatedDate, printCreatedRange, splitCreatedRange } from './createdRange.js';
+import { fetchIssueDetails } from './issueDetails.js';
+import { NotebookParameters } from './notebookParameters.js';
 import { OctokitProvider } from "./octokitProvider.js";
-import { NodeType, Utils } from "./parser/nodes.js";
-import { ProjectContainer } from './project.js';
-import { isRunnable, isUsingAtMe } from './utils.js';
+import { Node, NodeType, Utils } from "./parser/nodes.js";
+import { ProjectContainer, QueryData } from './project.js';
+import { diffResults } from './resultDiff.js';
+import { SearchCache, SearchResult } from './searchCache.js';
+import { getQueryUrl, isRunnable, isUsingAtMe, parseIssueUrl } from './utils.js';
+import { getWatchSettings } from './watchSettings.js';
 
 
 export const mimeGithubIssues = 'x-application/github-issues';
 
+// the results that the output of a cell shows
+export function getCellItems(cell: vscode.NotebookCell): SearchIssuesAndPullRequestsResponseItemsItem[] | undefined {
+	for (const output of cell.outputs) {
+		for (const item of output.items) {
+			if (item.mime === mimeGithubIssues) {
+				return JSON.parse(new TextDecoder().decode(item.data));
+			}
+		}
+	}
+	return undefined;
+}
+
+interface Snapshot {
+	timestamp: number;
+	queries: string[];
+	items: SearchIssuesAndPullRequestsResponseItemsItem[];
+}
+
 const atMeLink = '[`@me`](https://docs.github.com/en/search-github/getting-started-with-searching-on-github/understanding-the-search-syntax#queries-with-usernames)';
 
 // --- running queries
@@ -20,11 +47,24 @@ const atMeLink = '[`@me`](https://docs.github.com/en/search-github/getting-start
 export class IssuesNotebookKernel {
 
 	private readonly _controller: vscode.NotebookController;
+	private readonly _cache: SearchCache;
+	private readonly _disposables: vscode.Disposable[] = [];
 	private _executionOrder = 0;
 
+	// the results of the last complete run of each cell, to show what changed
+	private readonly _previousResults = new WeakMap<vscode.NotebookCell, SearchIssuesAndPullRequestsResponseItemsItem[]>();
+
+	// the last results of each cell, they are written into the cell metadata when saving a notebook
+	// with snapshots so that running cells doesn't make the notebook dirty
+	private readonly _snapshots = new WeakMap<vscode.NotebookCell, Snapshot>();
+
+	// how each cell shows its results, like snapshots they are written into the cell metadata when saving
+	private readonly _views = new WeakMap<vscode.NotebookCell, IssuesView>();
+
 	constructor(
 		readonly container: ProjectContainer,
-		readonly octokit: OctokitProvider
+		readonly octokit: OctokitProvider,
+		readonly parameters: NotebookParameters
 	) {
 
 		this._controller = vscode.notebooks.createNotebookController(
@@ -35,24 +75,97 @@ export class IssuesNotebookKernel {
 		this._controller.supportedLanguages = ['github-issues'];
 		this._controller.supportsExecutionOrder = true;
 		this._controller.description = 'GitHub';
-		this._controller.executeHandler = this._executeAll.bind(this);
+		this._controller.executeHandler = async cells => { await this._executeAll(cells, false); };
+		this._cache = new SearchCache(octokit.searchScheduler);
+
+		// results depend on who is asking
+		this._disposables.push(octokit.onDidChange(() => this._cache.clear()));
+
+		this._disposables.push(vscode.workspace.onWillSaveNotebookDocument(e => {
+			if (e.notebook.notebookType !== 'github-issues') {
+				return;
+			}
+			const edits = this.metadataEdits(e.notebook, Boolean(e.notebook.metadata?.snapshot));
+			if (edits.length > 0) {
+				const edit = new vscode.WorkspaceEdit();
+				edit.set(e.notebook.uri, edits);
+				e.waitUntil(Promise.resolve(edit));
+			}
+		}));
 	}
 
 	dispose(): void {
 		this._controller.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+
+	// edits that store how cells show their results in their metadata, and with `snapshots` also the results
+	metadataEdits(notebook: vscode.NotebookDocument, snapshots: boolean): vscode.NotebookEdit[] {
+		const edits: vscode.NotebookEdit[] = [];
+		for (const cell of notebook.getCells()) {
+			let metadata = cell.metadata;
+			const view = this._views.get(cell);
+			if (view && JSON.stringify(view) !== JSON.stringify(cell.metadata?.view)) {
+				metadata = { ...metadata, view };
+			}
+			const snapshot = snapshots ? this._snapshots.get(cell) : undefined;
+			if (snapshot && (<Snapshot | undefined>cell.metadata?.snapshot)?.timestamp !== snapshot.timestamp) {
+				metadata = { ...metadata, snapshot };
+			}
+			if (metadata !== cell.metadata) {
+				edits.push(vscode.NotebookEdit.updateCellMetadata(cell.index, metadata));
+			}
+		}
+		return edits;
 	}
 
-	private _executeAll(cells: vscode.NotebookCell[]): void {
+	// remembers how a cell shows its results without making the notebook dirty, the next run
+	// passes it to the renderer
+	setView(cell: vscode.NotebookCell, view: IssuesView): void {
+		this._views.set(cell, view);
+	}
+
+	viewOf(cell: vscode.NotebookCell): IssuesView | undefined {
+		return this._views.get(cell) ?? cell.metadata?.view;
+	}
+
+	executeWithoutCache(cells: vscode.NotebookCell[]): void {
+		this._executeAll(cells, true);
+	}
+
+	// runs a cell again, like running it by hand but without cache, and returns the results
+	// that weren't there before, used for watching cells
+	async refresh(cell: vscode.NotebookCell): Promise<SearchIssuesAndPullRequestsResponseItemsItem[]> {
+		const diff = (await this._executeAll([cell], true)).get(cell);
+		if (!diff || diff.added.length === 0) {
+			return [];
+		}
+		const added = new Set(diff.added);
+		return getCellItems(cell)?.filter(item => added.delete(item.url)) ?? [];
+	}
+
+	// runs one query of a cell, not the whole cell and not the cells that it depends on
+	async executeQuery(cell: vscode.NotebookCell, query: Node): Promise<void> {
+		if (await this.parameters.promptMissing(cell.notebook, [cell])) {
+			this._doExecuteCell(cell, false, query);
+		}
+	}
+
+	// runs cells and the cells that they depend on, returns what changed by cell
+	private async _executeAll(cells: vscode.NotebookCell[], force: boolean): Promise<Map<vscode.NotebookCell, ResultDiff | undefined>> {
 		const all = new Set<vscode.NotebookCell>();
 		for (const cell of cells) {
 			this._collectDependentCells(cell, all);
 		}
-		for (const cell of all.values()) {
-			this._doExecuteCell(cell);
+		const result = new Map<vscode.NotebookCell, ResultDiff | undefined>();
+		if (cells.length > 0 && !await this.parameters.promptMissing(cells[0].notebook, all)) {
+			return result;
 		}
+		await Promise.all([...all].map(async cell => result.set(cell, await this._doExecuteCell(cell, force && cells.includes(cell)))));
+		return result;
 	}
 
-	private async _doExecuteCell(cell: vscode.NotebookCell): Promise<void> {
+	private async _doExecuteCell(cell: vscode.NotebookCell, force: boolean, only?: Node): Promise<ResultDiff | undefined> {
 
 		const doc = await vscode.workspace.openTextDocument(cell.document.uri);
 		const project = this.container.lookupProject(doc.uri);
@@ -61,6 +174,10 @@ export class IssuesNotebookKernel {
 		// update query so that symbols defined here are marked as more recent
 		project.symbols.update(query);
 
+		// results that were restored from a snapshot count as previous run too, they
+		// need to be read before the output is replaced
+		const previous = this._previousResults.get(cell) ?? getCellItems(cell);
+
 		const exec = this._controller.createNotebookCellExecution(cell);
 		exec.executionOrder = ++this._executionOrder;
 		exec.start(Date.now());
@@ -71,9 +188,25 @@ export class IssuesNotebookKernel {
 			return;
 		}
 
-		const octokit = await this.octokit.lib();
+		const allQueryData = project.queryData(query, only);
+		if (allQueryData.length === 0) {
+			// only directives
+			exec.end(true);
+			return;
+		}
+
+		// the account that is selected for the notebook unless the cell asks for another one
+		const notebookAccount: string | undefined = cell.notebook.metadata?.account;
+		for (const data of allQueryData) {
+			data.account ??= notebookAccount;
+		}
 
-		if (!this.octokit.isAuthenticated) {
+		// all queries of a cell run against the same host and account, ask
+		// to log in when the cell is pinned to one
+		const [target] = allQueryData;
+		const { octokit, isAuthenticated } = await this.octokit.client(target, Boolean(target.host || target.account));
+
+		if (!isAuthenticated) {
 			const atMe = isUsingAtMe(query, project);
 			if (atMe > 0) {
 				const message = atMe > 1
@@ -99,38 +232,50 @@ export class IssuesNotebookKernel {
 			}
 		}
 
-		const allQueryData = project.queryData(query);
 		let allItems: SearchIssuesAndPullRequestsResponseItemsItem[] = [];
-		let tooLarge = false;
+		const stats: FetchStats = { requestCount: 0, totalCount: 0, split: false, truncated: false };
+		const matches = new Map<number, QueryMatches>();
+		const split = vscode.workspace.getConfiguration('github-issues').get<boolean>('splitLargeQueries', false);
+		// status messages are shown below the results of the last run, they
+		// are replaced with the new results
+		let status: vscode.NotebookCellOutput | undefined;
 		// fetch
 		try {
 			const abortCtl = new AbortController();
 			exec.token.onCancellationRequested(_ => abortCtl.abort());
 
-			for (let queryData of allQueryData) {
+			const showStatus = (message: string) => {
+				const item = vscode.NotebookCellOutputItem.text(message, 'text/markdown');
+				if (!status) {
+					status = new vscode.NotebookCellOutput([item], { status: true });
+					exec.appendOutput(status);
+				} else {
+					exec.replaceOutputItems(item, status);
+				}
+			};
 
-				let page = 1;
-				let count = 0;
-				while (!exec.token.isCancellationRequested) {
-
-					const response = await octokit.rest.search.issuesAndPullRequests({
-						q: queryData.q,
-						sort: (<any>queryData.sort),
-						order: queryData.order,
-						per_page: 100,
-						page,
-						request: { signal: abortCtl.signal }
-					});
-					count += response.data.items.length;
-					allItems = allItems.concat(<any>response.data.items);
-					tooLarge = tooLarge || response.data.total_count > 1000;
-					if (count >= Math.min(1000, response.data.total_count)) {
-						break;
-					}
-					page += 1;
+			for (let queryData of allQueryData) {
+				const totalBefore = stats.totalCount;
+				const items = await this._fetchQuery(octokit, queryData, split, force, stats, exec, showStatus, abortCtl.signal);
+				allItems = allItems.concat(items);
+				if (queryData.index !== undefined) {
+					const entry = matches.get(queryData.index) ?? { total: 0, fetched: 0, searches: 0, urls: new Set() };
+					entry.total += stats.totalCount - totalBefore;
+					entry.fetched += items.length;
+					entry.searches += 1;
+					items.forEach(item => entry.urls.add(item.url));
+					matches.set(queryData.index, entry);
 				}
 			}
 		} catch (err) {
+			if (exec.token.isCancellationRequested) {
+				// keep showing the results of the last run
+				if (status) {
+					await exec.replaceOutput(cell.outputs.filter(output => !output.metadata?.status));
+				}
+				exec.end(false);
+				return;
+			}
 			if (err instanceof Error && err.message.includes('Authenticated requests get a higher rate limit')) {
 				// ugly error-message checking for anon-rate-limit. where are the error codes?
 				const message = vscode.l10n.t({
@@ -161,38 +306,116 @@ export class IssuesNotebookKernel {
 
 		// sort
 		const [first] = allQueryData;
-		const comparator = allQueryData.length >= 2 && allQueryData.every(item => item.sort === first.sort) && cmp.byName.get(first.sort!);
+		const comparator = (allQueryData.length >= 2 || stats.split) && allQueryData.every(item => item.sort === first.sort) && cmp.byName.get(first.sort!);
 		if (comparator) {
 			allItems.sort(first.sort === 'asc' ? cmp.invert(comparator) : comparator);
 		}
 
-		// "render"
-		const seen = new Set<string>();
-		let md = '';
-		for (let item of allItems) {
-			if (seen.has(item.url)) {
-				continue;
-			}
-			seen.add(item.url);
+		// running a single query of a cell shows fewer results, that's no change
+		const diff = previous && !only ? diffResults(previous, allItems) : undefined;
+		exec.replaceOutput([createIssuesOutput(allItems, {
+			itemCount: allItems.length,
+			totalCount: stats.totalCount,
+			fetchedCount: allItems.length,
+			truncated: stats.truncated,
+			queryUrls: allQueryData.map(data => getQueryUrl(data, this.octokit.resolveHost(data.host))),
+			queryCounts: countMatches(matches),
+			split: stats.split ? { requestCount: stats.requestCount } : undefined,
+			view: this.viewOf(cell),
+			diff
+		})]);
+		exec.end(true, Date.now());
+
+		// running a single query doesn't replace the results of the whole cell
+		if (!only) {
+			this._previousResults.set(cell, allItems);
+
+			// remember the results so that they survive reopening the notebook, also when
+			// snapshots get enabled later
+			this._snapshots.set(cell, { timestamp: Date.now(), queries: allQueryData.map(d => d.q), items: allItems });
+		}
+		return diff;
+	}
 
-			// markdown
-			md += `- [#${item.number}](${item.html_url}) ${item.title}`;
-			if (item.labels.length > 0) {
-				md += ` [${item.labels.map(label => `${label.name}`).join(', ')}] `;
+	private async _fetchQuery(octokit: Octokit, queryData: QueryData, split: boolean, force: boolean, stats: FetchStats, exec: vscode.NotebookCellExecution, showStatus: (message: string) => void, signal: AbortSignal): Promise<SearchIssuesAndPullRequestsResponseItemsItem[]> {
+
+		const token = exec.token;
+		const onQueued = () => {
+			const message = vscode.l10n.t('Queued, waiting for other queries to finish...');
+			showStatus(message);
+		};
+		const onWaiting = (until: number) => {
+			let message = vscode.l10n.t('Waiting for the GitHub search rate limit, continuing at {0}...', new Date(until).toLocaleTimeString());
+			if (!this.octokit.isAuthenticated) {
+				message += ' ' + vscode.l10n.t({
+					message: 'You can [log in](command:github-issues.authNow) to get a higher rate limit.',
+					comment: [
+						'The [...](command:...) will be rendered as a markdown link. Only the contents of the square brackets should be translated',
+						'{Locked="](command:github-issues.authNow)"}'
+					]
+				});
+			}
+			showStatus(message);
+		};
+
+		const search = (q: string, page: number) => {
+			stats.requestCount += 1;
+			return this._cache.search(octokit, { ...queryData, q }, page, { force, signal, token, onQueued, onWaiting });
+		};
+
+		const fetchPages = async (q: string, first: SearchResult) => {
+			let items = first.items;
+			let page = 1;
+			while (!token.isCancellationRequested && items.length < Math.min(1000, first.total_count)) {
+				page += 1;
+				const next = await search(q, page);
+				if (next.items.length === 0) {
+					break;
+				}
+				items = items.concat(next.items);
+			}
+			return items;
+		};
+
+		// bisect on the creation date until each slice is below the 1000 results
+		// that the search API returns, stop at slices of one second
+		const fetchRange = async (from: number, to: number, known?: SearchResult): Promise<SearchResult['items']> => {
+			if (token.isCancellationRequested) {
+				return [];
 			}
-			if (item.assignee) {
-				md += `- [@${item.assignee.login}](${item.assignee.html_url} "${vscode.l10n.t('Issue {0} is assigned to {1}', item.number, item.assignee.login)}")\n`;
+			const q = `${queryData.q} ${printCreatedRange(from, to)}`;
+			const first = known ?? await search(q, 1);
+			const halves = first.total_count > 1000 ? splitCreatedRange(from, to) : undefined;
+			if (halves) {
+				const left = await fetchRange(...halves[0]);
+				const right = await fetchRange(...halves[1]);
+				return left.concat(right);
 			}
-			md += '\n';
+			stats.truncated = stats.truncated || first.total_count > 1000;
+			return fetchPages(q, first);
+		};
+
+		const first = await search(queryData.q, 1);
+		stats.totalCount += first.total_count;
+		let items: SearchResult['items'];
+		if (first.total_count <= 1000 || !split || /(^|\s)-?created:/.test(queryData.q)) {
+			stats.truncated = stats.truncated || first.total_count > 1000;
+			items = await fetchPages(queryData.q, first);
+		} else {
+			stats.split = true;
+			// the query without created-qualifier covers the whole range already
+			items = await fetchRange(firstCreatedDate, Math.ceil(Date.now() / 1000) * 1000, first);
 		}
 
-		// status line
-		exec.replaceOutput([new vscode.NotebookCellOutput([
-			vscode.NotebookCellOutputItem.json(allItems, mimeGithubIssues),
-			vscode.NotebookCellOutputItem.text(md, 'text/markdown'),
-		], { itemCount: allItems.length })]);
-
-		exec.end(true, Date.now());
+		// slices don't overlap but items might have been created while fetching
+		const seen = new Set<string>();
+		return (<SearchIssuesAndPullRequestsResponseItemsItem[]><any>items).filter(item => {
+			if (seen.has(item.url)) {
+				return false;
+			}
+			seen.add(item.url);
+			return true;
+		});
 	}
 
 	private async _collectDependentCells(cell: vscode.NotebookCell, bucket: Set<vscode.NotebookCell>): Promise<void> {
@@ -231,14 +454,104 @@ export class IssuesNotebookKernel {
 	}
 }
 
+// the results of the searches of one query of a cell
+interface QueryMatches {
+	total: number;
+	fetched: number;
+	searches: number;
+	urls: Set<string>;
+}
+
+// issues that match the searches of more than one OR'ed term are counted once, that is only
+// possible when all of their results have been fetched
+function countMatches(matches: Map<number, QueryMatches>): { [index: number]: QueryCount; } {
+	const result: { [index: number]: QueryCount; } = {};
+	for (const [index, { total, fetched, searches, urls }] of matches) {
+		if (searches === 1) {
+			result[index] = { count: total };
+		} else if (fetched >= total) {
+			result[index] = { count: urls.size };
+		} else {
+			result[index] = { count: total, atMost: true };
+		}
+	}
+	return result;
+}
+
+interface FetchStats {
+	requestCount: number;
+	totalCount: number;
+	split: boolean;
+	truncated: boolean;
+}
+
+
+// --- output
+
+let outputIds = 0;
+
+function createIssuesOutput(allItems: SearchIssuesAndPullRequestsResponseItemsItem[], metadata: IssuesOutputMetadata): vscode.NotebookCellOutput {
+	metadata.outputId = `${Date.now()}-${outputIds++}`;
+	const seen = new Set<string>();
+	let md = '';
+	if (metadata.truncated) {
+		const links = metadata.queryUrls?.map(url => `[${vscode.l10n.t('Open on GitHub')}](${url})`) ?? [];
+		md += `_${vscode.l10n.t('Showing {0} of {1} results.', metadata.fetchedCount ?? allItems.length, (metadata.totalCount ?? 0).toLocaleString())}_ ${links.join(' ')}\n\n`;
+	}
+	if (metadata.split) {
+		md += `_${vscode.l10n.t('This query matched more than 1000 results and was split by creation date. Fetching all results took {0} requests.', metadata.split.requestCount)}_\n\n`;
+	}
+	for (let item of allItems) {
+		if (seen.has(item.url)) {
+			continue;
+		}
+		seen.add(item.url);
+
+		// markdown
+		md += `- [#${item.number}](${item.html_url}) ${item.title}`;
+		if (item.labels.length > 0) {
+			md += ` [${item.labels.map(label => `${label.name}`).join(', ')}] `;
+		}
+		if (item.assignee) {
+			md += `- [@${item.assignee.login}](${item.assignee.html_url} "${vscode.l10n.t('Issue {0} is assigned to {1}', item.number, item.assignee.login)}")\n`;
+		}
+		md += '\n';
+	}
+
+	return new vscode.NotebookCellOutput([
+		vscode.NotebookCellOutputItem.json(allItems, mimeGithubIssues),
+		vscode.NotebookCellOutputItem.text(md, 'text/markdown'),
+	], metadata);
+}
+
 // --- status bar
 
 export class IssuesStatusBarProvider implements vscode.NotebookCellStatusBarItemProvider {
 
-	provideCellStatusBarItems(cell: vscode.NotebookCell): vscode.NotebookCellStatusBarItem | undefined {
-		const count = <number | undefined>cell.outputs[0]?.metadata?.['itemCount'];
+	readonly onDidChangeCellStatusBarItems: vscode.Event<void>;
+
+	constructor(private readonly _messaging: RendererMessaging) {
+		this.onDidChangeCellStatusBarItems = _messaging.onDidChangeHiddenCount;
+	}
+
+	provideCellStatusBarItems(cell: vscode.NotebookCell): vscode.NotebookCellStatusBarItem[] | undefined {
+		const result: vscode.NotebookCellStatusBarItem[] = [];
+
+		const watch = getWatchSettings(cell.metadata);
+		if (watch) {
+			const item = new vscode.NotebookCellStatusBarItem(
+				'$(eye) ' + vscode.l10n.t('Watching every {0} min', watch.interval),
+				vscode.NotebookCellStatusBarAlignment.Right,
+			);
+			item.command = 'github-issues.watchCell';
+			item.tooltip = vscode.l10n.t('This cell runs every {0} minutes and notifies about new results', watch.interval);
+			result.push(item);
+		}
+
+		const metadata = <IssuesOutputMetadata | undefined>cell.outputs[0]?.metadata;
+		const count = metadata?.itemCount;
 		if (typeof count !== 'number') {
-			return;
+			return result;
 		}
 		const item = new vscode.NotebookCellStatusBarItem(
 			'$(globe) ' + vscode.l10n.t('Open {0} results', count),
@@ -246,7 +559,159 @@ export class IssuesStatusBarProvider implements vscode.NotebookCellStatusBarItem
 		);
 		item.command = 'github-issues.openAll';
 		item.tooltip = vscode.l10n.t('Open {0} results in browser', count);
-		return item;
+		result.push(item);
+
+		if (metadata?.truncated && typeof metadata.totalCount === 'number') {
+			const item = new vscode.NotebookCellStatusBarItem(
+				'$(warning) ' + vscode.l10n.t('Showing {0} of {1}', metadata.fetchedCount ?? count, metadata.totalCount.toLocaleString()),
+				vscode.NotebookCellStatusBarAlignment.Right,
+			);
+			item.command = 'github-issues.openUrl';
+			item.tooltip = vscode.l10n.t('The search API returns at most 1000 results. Open the query in the browser to see all results.');
+			result.push(item);
+		}
+
+		const hiddenCount = this._messaging.hiddenCount(metadata!);
+		if (hiddenCount > 0) {
+			const item = new vscode.NotebookCellStatusBarItem(
+				'$(filter) ' + vscode.l10n.t('{0} hidden', hiddenCount),
+				vscode.NotebookCellStatusBarAlignment.Right,
+			);
+			item.tooltip = vscode.l10n.t('{0} results are hidden or filtered out in the output of this cell', hiddenCount);
+			result.push(item);
+		}
+
+		const snapshot = metadata?.snapshot;
+		if (snapshot) {
+			const item = new vscode.NotebookCellStatusBarItem(
+				'$(history) ' + vscode.l10n.t('Snapshot from {0}', fromNow(snapshot.timestamp)),
+				vscode.NotebookCellStatusBarAlignment.Right,
+			);
+			item.tooltip = vscode.l10n.t('These results are from {0}. Run the cell to refresh them.\n\n{1}', new Date(snapshot.timestamp).toLocaleString(), snapshot.queries.join('\n'));
+			result.push(item);
+		}
+		return result;
+	}
+}
+
+export class AccountStatusBarItem {
+
+	private readonly _item = vscode.window.createStatusBarItem('github-issues.account', vscode.StatusBarAlignment.Right);
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		this._item.name = vscode.l10n.t('GitHub Account');
+		this._item.command = 'github-issues.selectAccount';
+		this._disposables.push(vscode.window.onDidChangeActiveNotebookEditor(() => this._update()));
+		this._disposables.push(vscode.workspace.onDidChangeNotebookDocument(e => {
+			if (e.metadata && e.notebook === vscode.window.activeNotebookEditor?.notebook) {
+				this._update();
+			}
+		}));
+		this._update();
+	}
+
+	dispose(): void {
+		this._item.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+
+	private _update(): void {
+		const notebook = vscode.window.activeNotebookEditor?.notebook;
+		if (notebook?.notebookType !== 'github-issues') {
+			this._item.hide();
+			return;
+		}
+		const account: string | undefined = notebook.metadata?.account;
+		this._item.text = '$(account) ' + (account ?? vscode.l10n.t('Default Account'));
+		this._item.tooltip = account
+			? vscode.l10n.t('Queries of this notebook run as {0}', account)
+			: vscode.l10n.t('Queries of this notebook run with the default GitHub account');
+		this._item.show();
+	}
+}
+
+// --- renderer
+
+export class RendererMessaging {
+
+	private readonly _messaging = vscode.notebooks.createRendererMessaging('github-issues');
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	private readonly _onDidChangeHiddenCount = new vscode.EventEmitter<void>();
+	readonly onDidChangeHiddenCount = this._onDidChangeHiddenCount.event;
+
+	// number of results that the renderer doesn't show because of filters or hiding, by output
+	private readonly _hiddenCounts = new Map<string, number>();
+
+	constructor(
+		readonly container: ProjectContainer,
+		readonly octokit: OctokitProvider,
+		readonly kernel: IssuesNotebookKernel,
+		private readonly _bulkActions: BulkActions
+	) {
+		this._disposables.push(this._messaging.onDidReceiveMessage(e => this._handle(e.editor, <RendererMessage>e.message)));
+	}
+
+	dispose(): void {
+		this._onDidChangeHiddenCount.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+
+	hiddenCount(metadata: IssuesOutputMetadata): number {
+		return metadata.outputId && this._hiddenCounts.get(metadata.outputId) || 0;
+	}
+
+	private async _handle(editor: vscode.NotebookEditor, message: RendererMessage): Promise<void> {
+		const notebook = editor.notebook;
+		const cell = notebook.getCells().find(cell => cell.outputs.some(output => (<IssuesOutputMetadata | undefined>output.metadata)?.outputId === message.outputId));
+		if (message.type === 'details') {
+			// the renderer waits for a reply, also when there are no details
+			await this._messaging.postMessage(await this._details(cell, message.url), editor);
+			return;
+		}
+		if (!cell) {
+			return;
+		}
+		switch (message.type) {
+			case 'hiddenCount': {
+				// older outputs of the cell are gone
+				for (const output of cell.outputs) {
+					const outputId = (<IssuesOutputMetadata | undefined>output.metadata)?.outputId;
+					if (outputId && outputId !== message.outputId) {
+						this._hiddenCounts.delete(outputId);
+					}
+				}
+				if ((this._hiddenCounts.get(message.outputId) ?? 0) !== message.count) {
+					this._hiddenCounts.set(message.outputId, message.count);
+					this._onDidChangeHiddenCount.fire();
+				}
+				break;
+			}
+			case 'view': {
+				this.kernel.setView(cell, message.view);
+				break;
+			}
+			case 'bulk': {
+				await this._bulkActions.run(cell, message.action, message.urls);
+				break;
+			}
+		}
+	}
+
+	private async _details(cell: vscode.NotebookCell | undefined, url: string): Promise<ExtensionMessage> {
+		try {
+			const issue = parseIssueUrl(url);
+			if (!cell || !issue) {
+				throw new Error(vscode.l10n.t('Cannot show the details of {0}', url));
+			}
+			const { octokit } = await this.octokit.client(this.container.cellTarget(cell));
+			const commentCount = vscode.workspace.getConfiguration('github-issues').get<number>('details.commentCount', 5);
+			return { type: 'details', url, details: await fetchIssueDetails(octokit, issue, commentCount) };
+		} catch (err) {
+			console.warn(err);
+			return { type: 'details', url, error: err instanceof Error ? err.message : String(err) };
+		}
 	}
 }
 
@@ -258,6 +723,12 @@ interface RawNotebookCell {
 	value: string;
 	kind: vscode.NotebookCellKind;
 	editable?: boolean;
+	metadata?: { [key: string]: any; };
+}
+
+interface RawNotebook {
+	metadata: { [key: string]: any; };
+	cells: RawNotebookCell[];
 }
 
 declare class TextDecoder {
@@ -280,32 +751,67 @@ export class IssuesNotebookSerializer implements vscode.NotebookSerializer {
 		} catch {
 		}
 
-		let raw: RawNotebookCell[];
+		let raw: RawNotebookCell[] | RawNotebook;
 		try {
-			raw = <RawNotebookCell[]>JSON.parse(contents);
+			raw = <RawNotebookCell[] | RawNotebook>JSON.parse(contents);
 		} catch {
 			//?
 			raw = [];
 		}
 
-		const cells = raw.map(item => new vscode.NotebookCellData(
-			item.kind,
-			item.value,
-			item.language
-		));
+		// older notebooks are just an array of cells
+		const rawCells = Array.isArray(raw) ? raw : raw.cells ?? [];
+		const metadata = Array.isArray(raw) ? {} : raw.metadata ?? {};
+
+		const cells = rawCells.map(item => {
+			const cell = new vscode.NotebookCellData(
+				item.kind,
+				item.value,
+				item.language
+			);
+			cell.metadata = item.metadata;
+
+			// forget watch settings that don't make sense, e.g. after editing the file by hand
+			if (item.metadata?.watch && !getWatchSettings(item.metadata)) {
+				const { watch: _watch, ...metadata } = item.metadata;
+				cell.metadata = metadata;
+			}
+
+			// restore the last results, marked as snapshot
+			const snapshot = <Snapshot | undefined>item.metadata?.snapshot;
+			if (metadata.snapshot && snapshot) {
+				cell.outputs = [createIssuesOutput(snapshot.items, {
+					itemCount: snapshot.items.length,
+					snapshot: { timestamp: snapshot.timestamp, queries: snapshot.queries },
+					view: item.metadata?.view
+				})];
+			}
+			return cell;
+		});
 
-		return new vscode.NotebookData(cells);
+		const result = new vscode.NotebookData(cells);
+		result.metadata = metadata;
+		return result;
 	}
 
 	serializeNotebook(data: vscode.NotebookData): Uint8Array {
-		let contents: RawNotebookCell[] = [];
+		let cells: RawNotebookCell[] = [];
 		for (let cell of data.cells) {
-			contents.push({
+			const item: RawNotebookCell = {
 				kind: cell.kind,
 				language: cell.languageId,
 				value: cell.value
-			});
+			};
+			if (cell.metadata && Object.keys(cell.metadata).length > 0) {
+				item.metadata = cell.metadata;
+			}
+			cells.push(item);
 		}
+
+		// only use the extended format when needed so that older notebooks stay as they are
+		const contents: RawNotebookCell[] | RawNotebook = data.metadata && Object.keys(data.metadata).length > 0
+			? { metadata: data.metadata, cells }
+			: cells;
 		return this._encoder.encode(JSON.stringify(contents, undefined, 2));
 	}
 }
@@ -5,21 +5,100 @@
 
 import { Octokit } from '@octokit/rest';
 import * as vscode from 'vscode';
+import { QueryTarget } from './project.js';
+import { RequestScheduler } from './requestScheduler.js';
+
+export interface GitHubHost {
+	readonly authProviderId: string;
+	readonly apiUrl: string;
+	readonly webUrl: string;
+}
+
+export const githubDotCom: GitHubHost = {
+	authProviderId: 'github',
+	apiUrl: 'https://api.github.com',
+	webUrl: 'https://github.com',
+};
+
+const enterpriseAuthProviderId = 'github-enterprise';
+
+export function createHost(uri: string | undefined): GitHubHost {
+	if (!uri) {
+		return githubDotCom;
+	}
+	if (!/^https?:\/\//.test(uri)) {
+		uri = `https://${uri}`;
+	}
+	const webUrl = uri.replace(/\/+$/, '');
+	if (webUrl === githubDotCom.webUrl) {
+		return githubDotCom;
+	}
+	return {
+		authProviderId: enterpriseAuthProviderId,
+		apiUrl: `${webUrl}/api/v3`,
+		webUrl,
+	};
+}
+
+function getConfiguredHost(apiUrl: string | undefined): GitHubHost {
+	const host = createHost(vscode.workspace.getConfiguration('github-issues').get<string>('enterpriseUri'));
+	return apiUrl ? { ...host, apiUrl } : host;
+}
+
+function accountKey(host: GitHubHost, account: string): string {
+	return `${host.authProviderId}/${host.webUrl}/${account}`;
+}
 
 export class OctokitProvider {
 
 	private readonly _onDidChange = new vscode.EventEmitter<this>();
 	readonly onDidChange = this._onDidChange.event;
 
-	private _octokit = new Octokit();
+	readonly searchScheduler = new RequestScheduler();
+
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	private _host: GitHubHost;
+	private _octokit: Octokit;
 	private _isAuthenticated = false;
 
+	// sessions of accounts that queries asked for by name, keyed by provider and account
+	private readonly _accountSessions = new Map<string, vscode.AuthenticationSession>();
+
+	// `apiUrl` replaces the API of the configured host, integration tests use it to
+	// send all requests to a local server
+	constructor(private readonly _apiUrl?: string) {
+		this._host = getConfiguredHost(_apiUrl);
+		this._octokit = new Octokit({ baseUrl: this._host.apiUrl });
+
+		this._disposables.push(vscode.workspace.onDidChangeConfiguration(e => {
+			if (e.affectsConfiguration('github-issues.enterpriseUri')) {
+				this._host = getConfiguredHost(this._apiUrl);
+				this._octokit = new Octokit({ baseUrl: this._host.apiUrl });
+				this._isAuthenticated = false;
+				this._onDidChange.fire(this);
+			}
+		}));
+		this._disposables.push(vscode.authentication.onDidChangeSessions(e => {
+			this._accountSessions.clear();
+			if (e.provider.id === githubDotCom.authProviderId || e.provider.id === enterpriseAuthProviderId) {
+				// accounts of notebooks and cells might have changed
+				this._onDidChange.fire(this);
+			}
+		}));
+	}
+
+	dispose(): void {
+		this._onDidChange.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+
 	async lib(createIfNone?: boolean) {
 		const oldIsAuth = this._isAuthenticated;
 		try {
-			const session = await vscode.authentication.getSession('github', ['repo'], { createIfNone });
+			const session = await vscode.authentication.getSession(this._host.authProviderId, ['repo'], { createIfNone });
 			if (session) {
-				this._octokit = new Octokit({ auth: session.accessToken });
+				this._octokit = new Octokit({ auth: session.accessToken, baseUrl: this._host.apiUrl });
 				this._isAuthenticated = true;
 			}
 		} catch (err) {
@@ -36,7 +115,64 @@ export class OctokitProvider {
 		return this._octokit;
 	}
 
+	// like `lib` but for the host and account that a query is pinned to
+	async client(target: QueryTarget, createIfNone?: boolean): Promise<{ octokit: Octokit; isAuthenticated: boolean; }> {
+
+		const host = this.resolveHost(target.host);
+		if (host === this._host && !target.account) {
+			const octokit = await this.lib(createIfNone);
+			return { octokit, isAuthenticated: this._isAuthenticated };
+		}
+
+		let session = target.account ? this._accountSessions.get(accountKey(host, target.account)) : undefined;
+		try {
+			session ??= await vscode.authentication.getSession(host.authProviderId, ['repo'], { createIfNone });
+			if (session && target.account && session.account.label !== target.account && createIfNone) {
+				// let the user pick the account
+				session = await vscode.authentication.getSession(host.authProviderId, ['repo'], { clearSessionPreference: true, createIfNone: true });
+			}
+		} catch (err) {
+			// no token
+			console.warn('FAILED TO AUTHENTICATE');
+			console.warn(err);
+		}
+
+		if (session && target.account && session.account.label !== target.account) {
+			session = undefined;
+		}
+		if (session) {
+			this._accountSessions.set(accountKey(host, session.account.label), session);
+		}
+		return {
+			octokit: new Octokit({ auth: session?.accessToken, baseUrl: host.apiUrl }),
+			isAuthenticated: Boolean(session)
+		};
+	}
+
+	// shows the account picker of VS Code and returns the name of the chosen account
+	async pickAccount(hostName?: string): Promise<string | undefined> {
+		const host = this.resolveHost(hostName);
+		let session: vscode.AuthenticationSession;
+		try {
+			session = await vscode.authentication.getSession(host.authProviderId, ['repo'], { clearSessionPreference: true, createIfNone: true });
+		} catch (err) {
+			// cancelled
+			return undefined;
+		}
+		this._accountSessions.set(accountKey(host, session.account.label), session);
+		this._onDidChange.fire(this);
+		return session.account.label;
+	}
+
+	resolveHost(name: string | undefined): GitHubHost {
+		return name ? createHost(name) : this._host;
+	}
+
 	get isAuthenticated() {
 		return this._isAuthenticated;
 	}
+
+	get host(): GitHubHost {
+		return this._host;
+	}
 }
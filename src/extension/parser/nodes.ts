@@ -3,15 +3,19 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import { Parser } from "./parser.js";
 import { Token, TokenType } from "./scanner.js";
 import { SymbolTable, ValueType } from "./symbols.js";
 
 export const enum NodeType {
 	Any = 'Any',
+	ArgumentList = 'ArgumentList',
 	Compare = 'Compare',
 	Date = 'Date',
+	Group = 'Group',
 	Literal = 'Literal',
 	LiteralSequence = 'LiteralSequence',
+	MacroCall = 'MacroCall',
 	Missing = 'Missing',
 	Number = 'Number',
 	OrExpression = 'OrExpression',
@@ -83,15 +87,34 @@ export interface VariableNameNode extends BaseNode {
 	value: string;
 }
 
+export interface ArgumentListNode extends BaseNode {
+	_type: NodeType.ArgumentList;
+	nodes: (LiteralNode | NumberNode | DateNode | VariableNameNode | MissingNode)[];
+	closed: boolean;
+}
+
+export interface MacroCallNode extends BaseNode {
+	_type: NodeType.MacroCall;
+	name: VariableNameNode;
+	arguments: ArgumentListNode;
+}
+
 export interface VariableDefinitionNode extends BaseNode {
 	_type: NodeType.VariableDefinition;
 	name: VariableNameNode;
+	parameters: ArgumentListNode | undefined;
 	value: QueryNode | MissingNode;
 }
 
 export interface QueryNode extends BaseNode {
 	_type: NodeType.Query;
-	nodes: (QualifiedValueNode | NumberNode | DateNode | VariableNameNode | LiteralNode | AnyNode)[];
+	nodes: (QualifiedValueNode | NumberNode | DateNode | VariableNameNode | MacroCallNode | LiteralNode | AnyNode | GroupNode)[];
+}
+
+export interface GroupNode extends BaseNode {
+	_type: NodeType.Group;
+	expression: QueryNode | OrExpressionNode | MissingNode;
+	closed: boolean;
 }
 
 export interface OrExpressionNode extends BaseNode {
@@ -108,7 +131,7 @@ export interface QueryDocumentNode extends BaseNode {
 	nodes: (QueryNode | OrExpressionNode | VariableDefinitionNode)[];
 }
 
-export type SimpleNode = VariableNameNode | QualifiedValueNode | RangeNode | CompareNode | DateNode | NumberNode | LiteralNode | LiteralSequenceNode | MissingNode | AnyNode;
+export type SimpleNode = VariableNameNode | MacroCallNode | ArgumentListNode | QualifiedValueNode | RangeNode | CompareNode | DateNode | NumberNode | LiteralNode | LiteralSequenceNode | MissingNode | AnyNode | GroupNode;
 
 export type Node = QueryDocumentNode // level 1
 	| QueryNode | OrExpressionNode | VariableDefinitionNode // level 2
@@ -152,15 +175,28 @@ export namespace Utils {
 				case NodeType.VariableDefinition:
 					stack.unshift(node.value);
 					stack.unshift(node);
+					stack.unshift(node.parameters);
+					stack.unshift(node);
+					stack.unshift(node.name);
+					stack.unshift(node);
+					break;
+				case NodeType.MacroCall:
+					stack.unshift(node.arguments);
+					stack.unshift(node);
 					stack.unshift(node.name);
 					stack.unshift(node);
 					break;
+				case NodeType.Group:
+					stack.unshift(node.expression);
+					stack.unshift(node);
+					break;
 				case NodeType.OrExpression:
 					stack.unshift(node.right);
 					stack.unshift(node);
 					stack.unshift(node.left);
 					stack.unshift(node);
 					break;
+				case NodeType.ArgumentList:
 				case NodeType.LiteralSequence:
 				case NodeType.Query:
 				case NodeType.QueryDocument:
@@ -191,18 +227,36 @@ export namespace Utils {
 
 	export type PrintableNode = Exclude<Node, OrExpressionNode | QueryDocumentNode | VariableDefinitionNode>;
 
-	export function print(node: PrintableNode, text: string, variableValue: (name: string) => string | undefined): string {
+	// `variableValue` is called with the printed arguments when a macro is used, like `$team(alice)`
+	export function print(node: PrintableNode, text: string, variableValue: (name: string, args?: string[]) => string | undefined): string {
+
+		function _printExpression(node: QueryNode | OrExpressionNode | MissingNode): string {
+			return node._type === NodeType.OrExpression
+				? `${_print(node.left)} OR ${_printExpression(node.right)}`
+				: _print(node);
+		}
 
 		function _print(node: PrintableNode): string {
 			switch (node._type) {
+				case NodeType.Group:
+					// (aaa OR bbb)
+					return `(${_printExpression(node.expression)}${node.closed ? ')' : ''}`;
 				case NodeType.Missing:
 					// no value for those
 					return '';
 				case NodeType.VariableName:
 					// look up variable (must be defined first)
 					return variableValue(node.value) ?? `${node.value}`;
-				case NodeType.Any:
+				case NodeType.MacroCall:
+					// look up macro and fill in the arguments
+					return variableValue(node.name.value, node.arguments.nodes.map(_print)) ?? text.substring(node.start, node.end);
+				case NodeType.ArgumentList:
+					// (aaa, bbb)
+					return `(${node.nodes.map(_print).join(', ')}${node.closed ? ')' : ''}`;
 				case NodeType.Literal:
+					// not always from `text`, see `expand`
+					return node.value;
+				case NodeType.Any:
 				case NodeType.Date:
 				case NodeType.Number:
 					return text.substring(node.start, node.end);
@@ -240,6 +294,104 @@ export namespace Utils {
 		return _print(node);
 	}
 
+	// distributes AND over OR so that the result are queries without groups and OR-expressions,
+	// e.g `(aaa OR bbb) ccc` becomes `aaa ccc` and `bbb ccc`. With `variableValue` this includes
+	// groups in the values of variables. Queries that are repeated are dropped
+	export function expand(node: QueryNode | OrExpressionNode, text: string, variableValue?: (name: string, args?: string[]) => string | undefined): QueryNode[] {
+
+		type Term = Exclude<QueryNode['nodes'][number], GroupNode>;
+
+		// the alternatives of a variable with groups, each as a literal that replaces the variable
+		function _resolve(node: VariableNameNode | MacroCallNode): Term[][] | undefined {
+			if (!variableValue) {
+				return undefined;
+			}
+			const value = node._type === NodeType.VariableName
+				? variableValue(node.value)
+				: variableValue(node.name.value, node.arguments.nodes.map(arg => print(arg, text, variableValue)));
+			if (!value?.includes('(')) {
+				return undefined;
+			}
+			const [query] = new Parser().parse(value).nodes;
+			if (query?._type !== NodeType.Query || !query.nodes.some(child => child._type === NodeType.Group)) {
+				return undefined;
+			}
+			// values are printed already, variables in them are unknown
+			return expand(query, value).map(alternative => [{
+				_type: NodeType.Literal,
+				start: node.start,
+				end: node.end,
+				value: print(alternative, value, () => undefined)
+			}]);
+		}
+
+		function _alternatives(node: QueryNode | OrExpressionNode | MissingNode): Term[][] {
+			switch (node._type) {
+				case NodeType.Missing:
+					return [[]];
+				case NodeType.OrExpression:
+					return [..._alternatives(node.left), ..._alternatives(node.right)];
+				case NodeType.Query:
+					let result: Term[][] = [[]];
+					for (let child of node.nodes) {
+						const inner = child._type === NodeType.Group
+							? _alternatives(child.expression)
+							: child._type === NodeType.VariableName || child._type === NodeType.MacroCall ? _resolve(child) : undefined;
+						if (inner) {
+							result = result.flatMap(terms => inner.map(more => [...terms, ...more]));
+						} else if (child._type !== NodeType.Group) {
+							result = result.map(terms => [...terms, child]);
+						}
+					}
+					return result;
+			}
+		}
+
+		// terms are compared by their printed value, the order of terms doesn't matter
+		const seen = new Set<string>();
+		const result: QueryNode[] = [];
+		for (let terms of _alternatives(node)) {
+			// `(aaa OR bbb) aaa` yields `aaa aaa` which is just `aaa`
+			const keys = new Set<string>();
+			terms = terms.filter(term => {
+				const key = print(term, text, () => undefined);
+				return !keys.has(key) && Boolean(keys.add(key));
+			});
+			const key = JSON.stringify([...keys].sort());
+			if (terms.length === 0 || seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+			result.push({
+				_type: NodeType.Query,
+				start: terms[0].start,
+				end: terms[terms.length - 1].end,
+				nodes: terms
+			});
+		}
+		return result;
+	}
+
+	// the definition of the macro that declares a parameter, e.g. `$team(user)` for the
+	// parameter `user` and for `$user` when used in `$team(user)=involves:$user`
+	export function parameterScope(doc: QueryDocumentNode, node: VariableNameNode | LiteralNode): VariableDefinitionNode | undefined {
+		for (let candidate of doc.nodes) {
+			if (candidate._type !== NodeType.VariableDefinition || !candidate.parameters) {
+				continue;
+			}
+			if (node._type === NodeType.Literal && candidate.parameters.nodes.includes(node)) {
+				return candidate;
+			}
+			if (node._type === NodeType.VariableName
+				&& candidate.value.start <= node.start && node.end <= candidate.value.end
+				&& candidate.parameters.nodes.some(param => param._type === NodeType.Literal && `$${param.value}` === node.value)
+			) {
+				return candidate;
+			}
+		}
+		return undefined;
+	}
+
 	export function getTypeOfNode(node: Node, symbols: SymbolTable): ValueType | undefined {
 		switch (node._type) {
 			case NodeType.VariableName:
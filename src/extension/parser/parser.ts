@@ -3,13 +3,14 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { AnyNode, CompareNode, DateNode, LiteralNode, LiteralSequenceNode, MissingNode, NodeType, NumberNode, OrExpressionNode, QualifiedValueNode, QueryDocumentNode, QueryNode, RangeNode, VariableDefinitionNode, VariableNameNode } from "./nodes.js";
+import { AnyNode, ArgumentListNode, CompareNode, DateNode, GroupNode, LiteralNode, LiteralSequenceNode, MacroCallNode, MissingNode, NodeType, NumberNode, OrExpressionNode, QualifiedValueNode, QueryDocumentNode, QueryNode, RangeNode, VariableDefinitionNode, VariableNameNode } from "./nodes.js";
 import { Scanner, Token, TokenType } from "./scanner.js";
 
 export class Parser {
 
 	private _scanner: Scanner = new Scanner();
 	private _token: Token = { type: TokenType.EOF, start: 0, end: 0 };
+	private _groupDepth = 0;
 
 	private _accept<T extends TokenType>(type: T): Token & { type: T; } | undefined {
 		if (this._token.type === TokenType.EOF) {
@@ -56,9 +57,14 @@ export class Parser {
 	private _parseQuery(allowOR: boolean): QueryNode | OrExpressionNode | undefined {
 
 		const start = this._token.start;
-		const nodes: (QualifiedValueNode | NumberNode | DateNode | VariableNameNode | LiteralNode | AnyNode)[] = [];
+		const nodes: (QualifiedValueNode | NumberNode | DateNode | VariableNameNode | MacroCallNode | LiteralNode | AnyNode | GroupNode)[] = [];
 		while (this._token.type !== TokenType.NewLine && this._token.type !== TokenType.EOF) {
 
+			// the closing parenthesis ends the query of a group
+			if (this._groupDepth > 0 && this._token.type === TokenType.CloseParen) {
+				break;
+			}
+
 			// skip over whitespace
 			if (this._accept(TokenType.Whitespace) || this._accept(TokenType.LineComment)) {
 				continue;
@@ -98,10 +104,11 @@ export class Parser {
 			}
 
 			// parse the query AS-IS
-			const node = this._parseQualifiedValue()
+			const node = this._parseGroup(allowOR)
+				?? this._parseQualifiedValue()
 				?? this._parseNumber()
 				?? this._parseDate()
-				?? this._parseVariableName()
+				?? this._parseVariableNameOrMacroCall()
 				?? this._parseLiteral()
 				?? this._parseAny(this._token.type);
 
@@ -124,6 +131,26 @@ export class Parser {
 		};
 	}
 
+	private _parseGroup(allowOR: boolean): GroupNode | undefined {
+		// (query)
+		// (query OR query)
+		const open = this._accept(TokenType.OpenParen);
+		if (!open) {
+			return undefined;
+		}
+		this._groupDepth += 1;
+		const expression = this._parseQuery(allowOR) ?? this._createMissing([NodeType.Query]);
+		this._groupDepth -= 1;
+		const close = this._accept(TokenType.CloseParen);
+		return {
+			_type: NodeType.Group,
+			start: open.start,
+			end: close?.end ?? expression.end,
+			expression,
+			closed: Boolean(close)
+		};
+	}
+
 	private _parseAny(type: TokenType): AnyNode | undefined {
 		const token = this._accept(type);
 		if (token) {
@@ -186,7 +213,7 @@ export class Parser {
 
 		let value = this._scanner.value(tk);
 		let end = tk.end;
-		while (this._token.type !== TokenType.Whitespace && this._token.type !== TokenType.EOF) {
+		while (this._token.type !== TokenType.Whitespace && this._token.type !== TokenType.CloseParen && this._token.type !== TokenType.EOF) {
 			value += this._scanner.value(this._token);
 			end = this._token.end;
 			this._accept(this._token.type);
@@ -224,7 +251,7 @@ export class Parser {
 	}
 
 	private _parseDate(): DateNode | undefined {
-		const tk = this._accept(TokenType.Date) || this._accept(TokenType.DateTime);
+		const tk = this._accept(TokenType.Date) || this._accept(TokenType.DateTime) || this._accept(TokenType.RelativeDate);
 		if (!tk) {
 			return undefined;
 		}
@@ -375,13 +402,60 @@ export class Parser {
 		};
 	}
 
+	private _parseVariableNameOrMacroCall(): VariableNameNode | MacroCallNode | undefined {
+		// ${name}
+		// ${name}(arg, arg)
+		const name = this._parseVariableName();
+		if (!name) {
+			return undefined;
+		}
+		const args = this._parseArgumentList(name, () => this._parseDate() ?? this._parseNumber() ?? this._parseVariableName() ?? this._parseLiteral());
+		if (!args) {
+			return name;
+		}
+		return {
+			_type: NodeType.MacroCall,
+			start: name.start,
+			end: args.end,
+			name,
+			arguments: args
+		};
+	}
+
+	private _parseArgumentList(name: VariableNameNode, parseItem: () => ArgumentListNode['nodes'][number] | undefined): ArgumentListNode | undefined {
+		// (aaa, bbb) right after a name
+		const open = this._token.start === name.end && this._accept(TokenType.OpenParen);
+		if (!open) {
+			return undefined;
+		}
+		const nodes: ArgumentListNode['nodes'] = [];
+		this._accept(TokenType.Whitespace);
+		if (this._token.type !== TokenType.CloseParen) {
+			do {
+				this._accept(TokenType.Whitespace);
+				nodes.push(parseItem() ?? this._createMissing([NodeType.Literal]));
+				this._accept(TokenType.Whitespace);
+			} while (this._accept(TokenType.Comma));
+		}
+		const close = this._accept(TokenType.CloseParen);
+		return {
+			_type: NodeType.ArgumentList,
+			start: open.start,
+			end: close?.end ?? nodes[nodes.length - 1]?.end ?? open.end,
+			nodes,
+			closed: Boolean(close)
+		};
+	}
+
 	private _parseVariableDefinition(): VariableDefinitionNode | undefined {
 		// ${name}=query
+		// ${name}(param, param)=query
 		const anchor = this._token;
 		const name = this._parseVariableName();
 		if (!name) {
 			return;
 		}
+		const parameters = this._parseArgumentList(name, () => this._parseLiteral());
 		this._accept(TokenType.Whitespace);
 		if (!this._accept(TokenType.Equals)) {
 			this._reset(anchor);
@@ -393,6 +467,7 @@ export class Parser {
 			start: name.start,
 			end: value.end,
 			name,
+			parameters,
 			value,
 		};
 	}
@@ -0,0 +1,58 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// relative dates like `@today-7d` or `@monday`, they are resolved to absolute dates
+// when a query runs so that saved queries don't need to be updated. GitHub compares
+// dates without time in UTC, so today is the current day in UTC
+
+const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const relativeDatePattern = `@(?:today|yesterday|${weekdays.join('|')})(?:[+-]\\d+[dwmy])*\\b`;
+
+export function resolveRelativeDate(value: string, now: Date = new Date()): string | undefined {
+	const match = /^@([a-z]+)((?:[+-]\d+[dwmy])*)$/.exec(value);
+	if (!match) {
+		return undefined;
+	}
+	const [, name, offsets] = match;
+	const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+	if (name === 'yesterday') {
+		date.setUTCDate(date.getUTCDate() - 1);
+	} else if (name !== 'today') {
+		const day = weekdays.indexOf(name);
+		if (day < 0) {
+			return undefined;
+		}
+		// the most recent one, today included
+		date.setUTCDate(date.getUTCDate() - (date.getUTCDay() - day + 7) % 7);
+	}
+	for (const [, sign, amount, unit] of offsets.matchAll(/([+-])(\d+)([dwmy])/g)) {
+		const n = sign === '-' ? -Number(amount) : Number(amount);
+		switch (unit) {
+			case 'd': date.setUTCDate(date.getUTCDate() + n); break;
+			case 'w': date.setUTCDate(date.getUTCDate() + n * 7); break;
+			case 'm': addMonths(date, n); break;
+			case 'y': addMonths(date, n * 12); break;
+		}
+	}
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// days that don't exist in the target month become its last day, e.g. March 31 minus
+// one month is February 29 or 28, not March 2 or 3
+function addMonths(date: Date, months: number): void {
+	const day = date.getUTCDate();
+	date.setUTCDate(1);
+	date.setUTCMonth(date.getUTCMonth() + months);
+	const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+	date.setUTCDate(Math.min(day, lastDay));
+}
+
+// resolves all relative dates that are used as values, e.g `updated:>@today-7d`
+// or `closed:@monday..@today`, but not those that are free text
+export function resolveRelativeDates(text: string, now: Date = new Date()): string {
+	return text.replace(new RegExp(`(?<=[:<>=.])${relativeDatePattern}`, 'g'), value => resolveRelativeDate(value, now) ?? value);
+}
@@ -3,15 +3,20 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import { relativeDatePattern } from "./relativeDates.js";
+
 export const enum TokenType {
 	Literal = 'Literal',
 	QuotedLiteral = 'QuotedLiteral',
 	Number = 'Number',
 	Date = 'Date',
 	DateTime = 'DateTime',
+	RelativeDate = 'RelativeDate',
 	Dash = 'Dash',
 	Colon = 'Colon',
 	Comma = 'Comma',
+	OpenParen = 'OpenParen',
+	CloseParen = 'CloseParen',
 	LessThan = 'LessThan',
 	LessThanEqual = 'LessThanEqual',
 	GreaterThan = 'GreaterThan',
@@ -49,11 +54,14 @@ export class Scanner {
 		[TokenType.Whitespace, /[ \t]+/y],
 		[TokenType.DateTime, /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(Z|\+\d{2}:\d{2})\b/y],
 		[TokenType.Date, /\d{4}-\d{2}-\d{2}\b/y],
+		[TokenType.RelativeDate, new RegExp(relativeDatePattern, 'y')],
 		[TokenType.SHA, /[a-fA-F0-9]{7,40}\b/y],
 		[TokenType.Number, /\d+\b/y],
 		[TokenType.QuotedLiteral, /"[^"]+"/y],
 		[TokenType.Colon, /:/y],
 		[TokenType.Comma, /,/y],
+		[TokenType.OpenParen, /\(/y],
+		[TokenType.CloseParen, /\)/y],
 		[TokenType.Dash, /-/y],
 		[TokenType.Equals, /=/y],
 		[TokenType.LessThanEqual, /<=/y],
@@ -66,7 +74,8 @@ export class Scanner {
 		[TokenType.RangeFixedStart, new RegExp("\\.\\.\\*", 'y')],
 		[TokenType.RangeFixedEnd, new RegExp("\\*\\.\\.", 'y')],
 		[TokenType.Range, new RegExp("\\.\\.", 'y')],
-		[TokenType.Literal, /[^\s:"=,]+/y],
+		// parentheses inside of words are part of them, like `bug(s)`
+		[TokenType.Literal, /[^\s:"=,()]+(?:\([^\s:"=,()]*\)[^\s:"=,()]*)*/y],
 		[TokenType.Unknown, /.+/y],
 	]);
 
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { NodeType, QueryDocumentNode, Utils, VariableDefinitionNode } from "./nodes.js";
+import { NodeType, QualifiedValueNode, QueryDocumentNode, Utils, VariableDefinitionNode } from "./nodes.js";
 
 export enum ValueType {
 	Number = 'number',
@@ -11,6 +11,11 @@ export enum ValueType {
 	Literal = 'literal'
 }
 
+export interface ParameterInfo {
+	name: string;
+	type: ValueType | undefined;
+}
+
 export interface SymbolInfo {
 	root: QueryDocumentNode;
 	name: string;
@@ -18,6 +23,18 @@ export interface SymbolInfo {
 	timestamp: number;
 	type: ValueType | undefined;
 	value: string;
+	parameters: ParameterInfo[] | undefined;
+}
+
+export function fillInArguments(info: SymbolInfo, args: string[] | undefined): string {
+	const parameters = info.parameters;
+	if (!parameters) {
+		return info.value;
+	}
+	return info.value.replace(/\$[_a-zA-Z][_a-zA-Z0-9]*/g, match => {
+		const idx = parameters.findIndex(param => `$${param.name}` === match);
+		return idx >= 0 && args?.[idx] !== undefined ? args[idx] : match;
+	});
 }
 
 export class SymbolTable {
@@ -30,7 +47,8 @@ export class SymbolTable {
 		this._data.delete(id);
 	}
 
-	update(query: QueryDocumentNode) {
+	// pinned variables win over all others, e.g notebook parameters
+	update(query: QueryDocumentNode, pinned: boolean = false) {
 
 		// remove old
 		this._data.delete(query.id);
@@ -45,6 +63,30 @@ export class SymbolTable {
 			return Utils.getTypeOfNode(def.value.nodes[0], this);
 		};
 
+		// the type of a parameter is the type of the qualifier it is used with, e.g `date`
+		// for `$since` in `updated:>$since`
+		const getParameters = (def: VariableDefinitionNode): ParameterInfo[] | undefined => {
+			if (!def.parameters) {
+				return;
+			}
+			const types = new Map<string, ValueType>();
+			let qualified: QualifiedValueNode | undefined;
+			Utils.walk(def.value, node => {
+				if (node._type === NodeType.QualifiedValue) {
+					qualified = node;
+				} else if (node._type === NodeType.VariableName && qualified && qualified.start <= node.start && node.end <= qualified.end) {
+					const type = QualifiedValueNodeSchema.get(qualified.qualifier.value)?.type;
+					if (type && !types.has(node.value)) {
+						types.set(node.value, type);
+					}
+				}
+			});
+			return def.parameters.nodes.map(node => {
+				const name = node._type === NodeType.Literal ? node.value : '';
+				return { name, type: types.get(`$${name}`) };
+			});
+		};
+
 		// add new - all defined variables
 		for (let node of query.nodes) {
 			if (node._type === NodeType.VariableDefinition) {
@@ -53,18 +95,28 @@ export class SymbolTable {
 					array = [];
 					this._data.set(query.id, array);
 				}
+				const parameters = getParameters(node);
+				const isParameter = (name: string) => Boolean(parameters?.some(param => `$${param.name}` === name));
 				array.push({
 					root: query,
-					timestamp: this._clock.tick(),
+					timestamp: pinned ? Number.MAX_SAFE_INTEGER : this._clock.tick(),
 					name: node.name.value,
 					def: node,
 					type: getType(node),
-					value: Utils.print(node.value, query.text, name => this.getFirst(name)?.value)
+					// parameters stay as-is and are filled in by `resolve`
+					value: Utils.print(node.value, query.text, (name, args) => isParameter(name) ? undefined : this.resolve(name, args)),
+					parameters
 				});
 			}
 		}
 	}
 
+	// the value of a variable, for macros with the arguments filled in
+	resolve(name: string, args?: string[]): string | undefined {
+		const info = this.getFirst(name);
+		return info && fillInArguments(info, args);
+	}
+
 	getFirst(name: string): SymbolInfo | undefined {
 		let candidate: SymbolInfo | undefined;
 		for (let bucket of this._data.values()) {
@@ -221,4 +273,14 @@ export const QualifiedValueNodeSchema = new Map<string, QualifiedValueInfo>([
 	['size', QualifiedValueInfo.simple(ValueType.Number)],
 	['stars', QualifiedValueInfo.simple(ValueType.Number)],
 	['topics', QualifiedValueInfo.simple(ValueType.Number)],
+	// not GH standard, directives that select where a query runs
+	['host', QualifiedValueInfo.simple(ValueType.Literal, 'Run queries of this cell against a GitHub Enterprise Server, like host:github.example.com. A cell with only directives applies them to the whole notebook')],
+	['account', QualifiedValueInfo.simple(ValueType.Literal, 'Run queries of this cell with a certain GitHub account. A cell with only directives applies them to the whole notebook')],
+	['import', QualifiedValueInfo.simple(ValueType.Literal, 'Use the variables that are defined in another notebook or in a .github-issues.txt file, like import:"../shared/teams.github-issues.txt". Paths are relative to this notebook')],
+]);
+
+export const QueryDirectiveSchema = new Set<string>([
+	'host',
+	'account',
+	'import',
 ]);
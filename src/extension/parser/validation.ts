@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { LiteralNode, Node, NodeType, QualifiedValueNode, QueryDocumentNode, QueryNode, RangeNode, SimpleNode, Utils, VariableDefinitionNode } from "./nodes.js";
+import { ArgumentListNode, GroupNode, LiteralNode, MacroCallNode, Node, NodeType, QualifiedValueNode, QueryDocumentNode, QueryNode, RangeNode, SimpleNode, Utils, VariableDefinitionNode } from "./nodes.js";
 import { TokenType } from "./scanner.js";
 import { QualifiedValueNodeSchema, RepeatInfo, SymbolTable, ValueSet, ValueType } from "./symbols.js";
 
@@ -18,15 +18,20 @@ export const enum Code {
 	ValueTypeUnknown = 'ValueTypeUnknown',
 	QualifierUnknown = 'QualifierUnknown',
 	RangeMixesTypes = 'RangeMixesTypes',
+	GroupNotClosed = 'GroupNotClosed',
+	GroupNotOpened = 'GroupNotOpened',
+	ArgumentListNotClosed = 'ArgumentListNotClosed',
+	TooManyRequests = 'TooManyRequests',
+	ArgumentCountMismatch = 'ArgumentCountMismatch',
 
 	GitHubLoginNeeded = 'GitHubLoginNeeded'
 }
 
 
-export type ValidationError = GenericError | QualifierUnknownError | ValueConflictError | ValueUnknownError | ValueTypeError | MissingNodeError | MixedTypesError;
+export type ValidationError = GenericError | QualifierUnknownError | ValueConflictError | ValueUnknownError | ValueTypeError | MissingNodeError | MixedTypesError | TooManyRequestsError | ArgumentCountError;
 
 export interface GenericError {
-	readonly code: Code.OrNotAllowed | Code.SequenceNotAllowed | Code.VariableDefinedRecursive | Code.VariableUnknown;
+	readonly code: Code.OrNotAllowed | Code.SequenceNotAllowed | Code.VariableDefinedRecursive | Code.VariableUnknown | Code.GroupNotClosed | Code.GroupNotOpened | Code.ArgumentListNotClosed;
 	readonly node: Node;
 }
 
@@ -69,21 +74,106 @@ export interface MixedTypesError {
 	readonly valueB: ValueType | undefined;
 }
 
-export function validateQueryDocument(doc: QueryDocumentNode, symbols: SymbolTable): Iterable<ValidationError> {
+export interface TooManyRequestsError {
+	readonly code: Code.TooManyRequests;
+	readonly node: Node;
+	readonly count: number;
+	readonly limit: number;
+}
+
+export interface ArgumentCountError {
+	readonly code: Code.ArgumentCountMismatch;
+	readonly node: Node;
+	readonly expected: number;
+	readonly actual: number;
+}
+
+export function validateQueryDocument(doc: QueryDocumentNode, symbols: SymbolTable, maxRequests?: number): Iterable<ValidationError> {
 	const result: ValidationError[] = [];
+
+	// usages of macro parameters, like `$user` in `$team(user)=involves:$user`
+	const parameters = new Set<Node>();
 	Utils.walk(doc, node => {
+		if (node._type === NodeType.VariableName && Utils.parameterScope(doc, node)) {
+			parameters.add(node);
+		}
+	});
+
+	Utils.walk(doc, (node, parent) => {
 		switch (node._type) {
 			case NodeType.VariableDefinition:
 				_validateVariableDefinition(node, result);
 				break;
 			case NodeType.Query:
-				_validateQuery(node, result, symbols);
+				_validateQuery(node, result, symbols, parameters);
+				break;
+			case NodeType.MacroCall:
+				_validateMacroCall(node, result, symbols, doc.text);
+				break;
+			case NodeType.ArgumentList:
+				_validateArgumentList(node, result);
+				break;
+			case NodeType.Group:
+				_validateGroup(node, result);
+				break;
+			case NodeType.Any:
+				if (node.tokenType === TokenType.CloseParen) {
+					result.push({ node, code: Code.GroupNotOpened });
+				}
 				break;
 		}
+		if (maxRequests !== undefined && parent === doc && (node._type === NodeType.Query || node._type === NodeType.OrExpression)) {
+			// each expanded query is a search request
+			const count = Utils.expand(node, doc.text, (name, args) => symbols.resolve(name, args)).length;
+			if (count > maxRequests) {
+				result.push({ node, code: Code.TooManyRequests, count, limit: maxRequests });
+			}
+		}
 	});
 	return result;
 }
 
+function _validateGroup(group: GroupNode, bucket: ValidationError[]) {
+	if (group.expression._type === NodeType.Missing) {
+		bucket.push({ node: group, code: Code.NodeMissing, expected: group.expression.expected, hint: false });
+	}
+	if (!group.closed) {
+		bucket.push({ node: group, code: Code.GroupNotClosed });
+	}
+}
+
+function _validateArgumentList(list: ArgumentListNode, bucket: ValidationError[]) {
+	for (let node of list.nodes) {
+		if (node._type === NodeType.Missing) {
+			bucket.push({ node, code: Code.NodeMissing, expected: node.expected, hint: false });
+		}
+	}
+	if (!list.closed) {
+		bucket.push({ node: list, code: Code.ArgumentListNotClosed });
+	}
+}
+
+function _validateMacroCall(call: MacroCallNode, bucket: ValidationError[], symbols: SymbolTable, text: string) {
+	const info = symbols.getFirst(call.name.value);
+	if (!info) {
+		bucket.push({ node: call.name, code: Code.VariableUnknown });
+		return;
+	}
+	const parameters = info.parameters ?? [];
+	if (parameters.length !== call.arguments.nodes.length) {
+		bucket.push({ node: call.arguments, code: Code.ArgumentCountMismatch, expected: parameters.length, actual: call.arguments.nodes.length });
+		return;
+	}
+	// arguments must fit to how the parameters are used
+	parameters.forEach((param, i) => {
+		const arg = call.arguments.nodes[i];
+		const type = Utils.getTypeOfNode(arg, symbols);
+		if (param.type && type && param.type !== type) {
+			bucket.push({ node: arg, code: Code.ValueTypeUnknown, actual: Utils.print(arg, text, () => undefined), expected: param.type });
+		}
+	});
+}
+
 function _validateVariableDefinition(defNode: VariableDefinitionNode, bucket: ValidationError[]) {
 
 	if (defNode.value._type === NodeType.Missing) {
@@ -102,7 +192,7 @@ function _validateVariableDefinition(defNode: VariableDefinitionNode, bucket: Va
 	});
 }
 
-function _validateQuery(query: QueryNode, bucket: ValidationError[], symbols: SymbolTable): void {
+function _validateQuery(query: QueryNode, bucket: ValidationError[], symbols: SymbolTable, parameters: Set<Node>): void {
 
 	const mutual = new Map<any, Node>();
 
@@ -110,19 +200,22 @@ function _validateQuery(query: QueryNode, bucket: ValidationError[], symbols: Sy
 	for (let node of query.nodes) {
 
 		if (node._type === NodeType.QualifiedValue) {
-			_validateQualifiedValue(node, bucket, symbols, mutual);
+			_validateQualifiedValue(node, bucket, symbols, mutual, parameters);
 
-		} else if (node._type === NodeType.VariableName) {
+		} else if (node._type === NodeType.VariableName && !parameters.has(node)) {
 			// variable-name => must exist
 			const info = symbols.getFirst(node.value);
 			if (!info) {
 				bucket.push({ node, code: Code.VariableUnknown });
+			} else if (info.parameters) {
+				// macro without arguments
+				bucket.push({ node, code: Code.ArgumentCountMismatch, expected: info.parameters.length, actual: 0 });
 			}
 		}
 	}
 }
 
-function _validateQualifiedValue(node: QualifiedValueNode, bucket: ValidationError[], symbols: SymbolTable, conflicts: Map<any, Node>): void {
+function _validateQualifiedValue(node: QualifiedValueNode, bucket: ValidationError[], symbols: SymbolTable, conflicts: Map<any, Node>, parameters: Set<Node>): void {
 
 	// check name first
 	const info = QualifiedValueNodeSchema.get(node.qualifier.value);
@@ -145,7 +238,7 @@ function _validateQualifiedValue(node: QualifiedValueNode, bucket: ValidationErr
 	}
 
 	if (node.value._type === NodeType.Range) {
-		_validateRange(node.value, bucket, symbols);
+		_validateRange(node.value, bucket, symbols, parameters);
 	}
 
 	// check value
@@ -159,6 +252,11 @@ function _validateQualifiedValue(node: QualifiedValueNode, bucket: ValidationErr
 			valueNode = valueNode.open || valueNode.close || valueNode;
 		}
 
+		// parameter => type depends on the argument
+		if (parameters.has(valueNode)) {
+			return;
+		}
+
 		// missing => done
 		if (info && valueNode._type === NodeType.Missing) {
 			bucket.push({ node: valueNode, code: Code.NodeMissing, expected: valueNode.expected, hint: true });
@@ -216,9 +314,9 @@ function _validateQualifiedValue(node: QualifiedValueNode, bucket: ValidationErr
 	}
 }
 
-function _validateRange(node: RangeNode, bucket: ValidationError[], symbol: SymbolTable) {
+function _validateRange(node: RangeNode, bucket: ValidationError[], symbol: SymbolTable, parameters: Set<Node>) {
 	// ensure both ends are of equal types
-	if (node.open && node.close) {
+	if (node.open && node.close && !parameters.has(node.open) && !parameters.has(node.close)) {
 		const typeOpen = Utils.getTypeOfNode(node.open, symbol);
 		const typeClose = Utils.getTypeOfNode(node.close, symbol);
 		if (typeOpen !== typeClose) {
@@ -5,18 +5,119 @@
 
 import * as vscode from 'vscode';
 import { Node, NodeType, QueryDocumentNode, QueryNode, Utils } from './parser/nodes.js';
+import { collectImports } from './imports.js';
 import { Parser } from './parser/parser.js';
-import { SymbolTable } from './parser/symbols.js';
+import { resolveRelativeDates } from './parser/relativeDates.js';
+import { QueryDirectiveSchema, SymbolInfo, SymbolTable } from './parser/symbols.js';
+
+// what a project needs of a document, cells of imported notebooks that aren't open only have that
+export type ProjectDocument = Pick<vscode.TextDocument, 'uri' | 'version' | 'getText' | 'positionAt'>;
+
+export interface QueryTarget {
+	host?: string;
+	account?: string;
+}
+
+// values of notebook parameters by variable name, e.g `{ "$MILESTONE": "\"July 2026\"" }`
+export type ParameterValues = { [name: string]: string; };
+
+export interface QueryData extends QueryTarget {
+	q: string;
+	sort?: string;
+	order?: 'asc' | 'desc';
+	// the query of the document that this search belongs to, OR'ed terms of a query are searched separately
+	index?: number;
+}
+
+// parameter values are values of qualifiers, anything that isn't a single word is quoted so
+// that values like `foo OR bar` or `label:bug` don't change the queries they are used in
+function asParameterValue(value: string): string {
+	value = value.trim();
+	if (/^"[^"]*"$/.test(value) || /^[^\s:"=,()]*$/.test(value)) {
+		return value;
+	}
+	return `"${value.replace(/"/g, '').replace(/\s+/g, ' ')}"`;
+}
+
+// removes host:-, account:-, and import:-directives from a query and captures the values of those
+// that select where a query runs
+function extractDirectives(node: QueryNode, text: string, variableAccess: (name: string, args?: string[]) => string | undefined, target: QueryTarget): { query: QueryNode, found: boolean; } {
+	const nodes = node.nodes.filter(child => {
+		if (child._type !== NodeType.QualifiedValue || !QueryDirectiveSchema.has(child.qualifier.value)) {
+			return true;
+		}
+		// negated directives don't select anything
+		if (!child.not && (child.qualifier.value === 'host' || child.qualifier.value === 'account')) {
+			target[child.qualifier.value] = Utils.print(child.value, text, variableAccess).replace(/^"(.*)"$/, '$1');
+		}
+		return false;
+	});
+	return { query: { ...node, nodes }, found: nodes.length < node.nodes.length };
+}
+
+// a code cell of an imported notebook that isn't open, its uri is that of the notebook with the index
+// of the cell as fragment
+class ImportedCell implements ProjectDocument {
+
+	private _text = '';
+	private _lineStarts: number[] = [0];
+	private _version = 0;
+
+	constructor(readonly uri: vscode.Uri) { }
+
+	get version(): number {
+		return this._version;
+	}
+
+	update(text: string): void {
+		if (text === this._text && this._version > 0) {
+			return;
+		}
+		this._text = text;
+		this._lineStarts = [0];
+		for (let i = 0; i < text.length; i++) {
+			if (text.charCodeAt(i) === 10 /* \n */) {
+				this._lineStarts.push(i + 1);
+			}
+		}
+		this._version += 1;
+	}
+
+	getText(range?: vscode.Range): string {
+		if (!range) {
+			return this._text;
+		}
+		return this._text.substring(this._offsetAt(range.start), this._offsetAt(range.end));
+	}
+
+	positionAt(offset: number): vscode.Position {
+		offset = Math.max(0, Math.min(offset, this._text.length));
+		let line = this._lineStarts.length - 1;
+		while (this._lineStarts[line] > offset) {
+			line -= 1;
+		}
+		return new vscode.Position(line, offset - this._lineStarts[line]);
+	}
+
+	private _offsetAt(position: vscode.Position): number {
+		const line = Math.max(0, Math.min(position.line, this._lineStarts.length - 1));
+		const end = line + 1 < this._lineStarts.length ? this._lineStarts[line + 1] : this._text.length;
+		return Math.min(this._lineStarts[line] + position.character, end);
+	}
+}
 
 export class Project {
 
+	private static readonly _parametersId = 'notebook-parameters';
+
 	private readonly _nodeToUri = new WeakMap<Node, vscode.Uri>();
-	private readonly _cached = new Map<string, { versionParsed: number, doc: vscode.TextDocument, node: QueryDocumentNode; }>();
+	private readonly _imported = new Set<string>();
+	private readonly _cached = new Map<string, { versionParsed: number, doc: ProjectDocument, node: QueryDocumentNode; }>();
 	private readonly _parser = new Parser();
 
 	readonly symbols: SymbolTable = new SymbolTable();
 
-	getOrCreate(doc: vscode.TextDocument): QueryDocumentNode {
+	getOrCreate(doc: ProjectDocument): QueryDocumentNode {
 		let value = this._cached.get(doc.uri.toString());
 		if (!value || value.versionParsed !== doc.version) {
 			const text = doc.getText();
@@ -32,15 +133,71 @@ export class Project {
 		return value.node;
 	}
 
-	has(doc: vscode.TextDocument): boolean {
+	// notebook parameters are variables that are defined outside of cells
+	setParameters(values: ParameterValues = {}): void {
+		const text = Object.entries(values)
+			.filter(([name]) => /^\$[_a-zA-Z][_a-zA-Z0-9]*$/.test(name))
+			.map(([name, value]) => `${name}=${asParameterValue(value)}`)
+			.join('\n');
+		this.symbols.update(this._parser.parse(text, Project._parametersId), true);
+	}
+
+	isParameter(info: SymbolInfo): boolean {
+		return info.root.id === Project._parametersId;
+	}
+
+	has(doc: ProjectDocument): boolean {
 		return this._cached.has(doc.uri.toString());
 	}
 
-	delete(doc: vscode.TextDocument): void {
+	delete(doc: ProjectDocument): void {
 		this._cached.delete(doc.uri.toString());
+		this._imported.delete(doc.uri.toString());
 		this.symbols.delete(doc.uri.toString());
 	}
 
+	// documents of other files that contribute their variables to this project, returns
+	// if that changed the project
+	addImport(doc: ProjectDocument): boolean {
+		const entry = this._cached.get(doc.uri.toString());
+		this._imported.add(doc.uri.toString());
+		this.getOrCreate(doc);
+		return !entry || entry.versionParsed !== doc.version;
+	}
+
+	isImported(uri: vscode.Uri): boolean {
+		return this._imported.has(uri.toString());
+	}
+
+	// cells of imported notebooks that aren't open can't be edited
+	isReadonly(uri: vscode.Uri): boolean {
+		return this._cached.get(uri.toString())?.doc instanceof ImportedCell;
+	}
+
+	ownDocuments(): ProjectDocument[] {
+		return [...this._cached.values()].filter(entry => !this._imported.has(entry.doc.uri.toString())).map(entry => entry.doc);
+	}
+
+	importedDocuments(): ProjectDocument[] {
+		return [...this._cached.values()].filter(entry => this._imported.has(entry.doc.uri.toString())).map(entry => entry.doc);
+	}
+
+	// paths of the import:-directives of a document
+	importPaths(doc: ProjectDocument): string[] {
+		const result: string[] = [];
+		for (const query of this.getOrCreate(doc).nodes) {
+			if (query._type !== NodeType.Query) {
+				continue;
+			}
+			for (const child of query.nodes) {
+				if (child._type === NodeType.QualifiedValue && child.qualifier.value === 'import' && child.value._type === NodeType.Literal) {
+					result.push(child.value.value.replace(/^"(.*)"$/, '$1'));
+				}
+			}
+		}
+		return result;
+	}
+
 	all() {
 		return this._cached.values();
 	}
@@ -78,45 +235,81 @@ export class Project {
 		);
 	}
 
-	queryData(queryNode: QueryDocumentNode) {
+	// the searches of a document, or only those of one of its queries
+	queryData(queryNode: QueryDocumentNode, only?: Node): QueryData[] {
 
-		const variableAccess = (name: string) => this.symbols.getFirst(name)?.value;
+		const variableAccess = (name: string, args?: string[]) => this.symbols.resolve(name, args);
+		const target: QueryTarget = {};
 
-		function fillInQuery(node: QueryNode) {
+		function fillInQuery(node: QueryNode, index: number) {
 			let sort: string | undefined;
 			let order: 'asc' | 'desc' | undefined;
 
 			// TODO@jrieken
 			// this is hacky, but it works. We first print the node *with* sortby-statements
 			// and then use a regex to remove and capture the sortby-information
-			const textWithSortBy = Utils.print(node, queryNode.text, variableAccess);
+			const { query: withoutDirectives, found } = extractDirectives(node, queryNode.text, variableAccess, target);
+			const textWithSortBy = Utils.print(withoutDirectives, queryNode.text, variableAccess);
 			const query = textWithSortBy.replace(/sort:([\w-+\d]+)-(asc|desc)/g, function (_m, g1, g2) {
 				sort = g1 ?? undefined;
 				order = g2 ?? undefined;
 				return '';
 			}).trim();
 
+			if (found && !query) {
+				// only directives, nothing to search for
+				return;
+			}
+
 			result.push({
-				q: query,
+				q: resolveRelativeDates(query),
 				sort,
 				order,
+				index,
 			});
 		}
 
 		function fillInQueryData(node: Node) {
 			switch (node._type) {
 				case NodeType.Query:
-					fillInQuery(node);
-					break;
 				case NodeType.OrExpression:
-					fillInQuery(node.left);
-					// recurse
-					fillInQueryData(node.right);
+					// one search per combination of OR'ed terms
+					const index = queryNode.nodes.indexOf(node);
+					Utils.expand(node, queryNode.text, variableAccess).forEach(query => fillInQuery(query, index));
 			}
 		}
 
-		const result: { q: string; sort?: string; order?: 'asc' | 'desc'; }[] = [];
-		queryNode.nodes.forEach(fillInQueryData);
+		const result: QueryData[] = [];
+		(only ? [only] : queryNode.nodes).forEach(fillInQueryData);
+
+		// directives of this cell win over those of the notebook
+		const { host, account } = this.notebookTarget();
+		target.host ??= host;
+		target.account ??= account;
+		return result.map(item => ({ ...item, ...target }));
+	}
+
+	// the target of cells of this notebook that only contain directives, imported files don't count
+	notebookTarget(): QueryTarget {
+		const variableAccess = (name: string, args?: string[]) => this.symbols.resolve(name, args);
+		const result: QueryTarget = {};
+		for (const { node: doc } of this._cached.values()) {
+			if (this._imported.has(doc.id)) {
+				continue;
+			}
+			for (const node of doc.nodes) {
+				if (node._type !== NodeType.Query) {
+					continue;
+				}
+				// a query that consists of directives only
+				const target: QueryTarget = {};
+				const { query, found } = extractDirectives(node, doc.text, variableAccess, target);
+				if (found && query.nodes.length === 0) {
+					result.host ??= target.host;
+					result.account ??= target.account;
+				}
+			}
+		}
 		return result;
 	}
 }
@@ -131,8 +324,10 @@ export class ProjectContainer {
 
 	private readonly _disposables: vscode.Disposable[] = [];
 	private readonly _associations = new Map<vscode.NotebookDocument, Project>();
+	private readonly _importedCells = new Map<string, ImportedCell>();
+	private _importsHandle: ReturnType<typeof setTimeout> | undefined;
 
-	constructor() {
+	constructor(private readonly _serializer: { deserializeNotebook(data: Uint8Array): vscode.NotebookData; }) {
 
 		this._disposables.push(vscode.workspace.onDidOpenNotebookDocument(notebook => {
 
@@ -145,6 +340,7 @@ export class ProjectContainer {
 			}
 
 			const project = new Project();
+			project.setParameters(notebook.metadata?.parameters);
 			this._associations.set(notebook, project);
 
 			try {
@@ -159,6 +355,7 @@ export class ProjectContainer {
 			}
 
 			this._onDidChange.fire(project);
+			this._updateImportsSoon();
 		}));
 
 		this._disposables.push(vscode.workspace.onDidCloseNotebookDocument(notebook => {
@@ -174,6 +371,9 @@ export class ProjectContainer {
 			if (!project) {
 				return;
 			}
+			if (e.metadata) {
+				project.setParameters(e.metadata.parameters);
+			}
 			for (let change of e.contentChanges) {
 				for (let cell of change.removedCells) {
 					project.delete(cell.document);
@@ -185,7 +385,102 @@ export class ProjectContainer {
 				}
 			}
 			this._onDidChange.fire(project);
+			this._updateImportsSoon();
+		}));
+
+		this._disposables.push(vscode.workspace.onDidChangeTextDocument(e => {
+			if (e.document.languageId !== 'github-issues') {
+				return;
+			}
+			for (const project of this._associations.values()) {
+				if (project.isImported(e.document.uri)) {
+					project.getOrCreate(e.document);
+				}
+			}
+			this._updateImportsSoon();
 		}));
+
+		// imported notebooks that aren't open are read from disk, re-read them when they are saved
+		const watcher = vscode.workspace.createFileSystemWatcher('**/*.github-issues');
+		this._disposables.push(watcher);
+		this._disposables.push(watcher.onDidChange(() => this._updateImportsSoon()));
+		this._disposables.push(watcher.onDidCreate(() => this._updateImportsSoon()));
+		this._disposables.push(watcher.onDidDelete(() => this._updateImportsSoon()));
+	}
+
+	dispose(): void {
+		clearTimeout(this._importsHandle);
+		this._onDidRemove.dispose();
+		this._onDidChange.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+
+	private _updateImportsSoon(): void {
+		clearTimeout(this._importsHandle);
+		this._importsHandle = setTimeout(() => this._updateImports().catch(err => console.error(err)), 300);
+	}
+
+	// loads the documents of import:-directives, and those that they import, into each project
+	private async _updateImports(): Promise<void> {
+		const used = new Set<string>();
+		for (const [notebook, project] of this._associations) {
+			const importsOf = (doc: ProjectDocument) => project.importPaths(doc).map(path => resolveImport(doc.uri, path).toString());
+			const docs = await collectImports(project.ownDocuments(), [notebook.uri.toString()], importsOf, file => this._loadImport(vscode.Uri.parse(file)));
+
+			let changed = false;
+			const keep = new Set<string>();
+			for (const doc of docs) {
+				keep.add(doc.uri.toString());
+				changed = project.addImport(doc) || changed;
+			}
+			for (const doc of project.importedDocuments()) {
+				if (!keep.has(doc.uri.toString())) {
+					project.delete(doc);
+					changed = true;
+				}
+			}
+			keep.forEach(uri => used.add(uri));
+			if (changed) {
+				this._onDidChange.fire(project);
+			}
+		}
+		for (const uri of this._importedCells.keys()) {
+			if (!used.has(uri)) {
+				this._importedCells.delete(uri);
+			}
+		}
+	}
+
+	// the code cells of an imported notebook, read from disk unless the notebook is open
+	private async _loadImport(uri: vscode.Uri): Promise<ProjectDocument[]> {
+		try {
+			if (!uri.path.endsWith('.github-issues')) {
+				return [await vscode.workspace.openTextDocument(uri)];
+			}
+			const notebook = vscode.workspace.notebookDocuments.find(notebook => notebook.uri.toString() === uri.toString());
+			if (notebook) {
+				return notebook.getCells().filter(cell => cell.kind === vscode.NotebookCellKind.Code).map(cell => cell.document);
+			}
+			const data = this._serializer.deserializeNotebook(await vscode.workspace.fs.readFile(uri));
+			const result: ImportedCell[] = [];
+			data.cells.forEach((cell, index) => {
+				if (cell.kind !== vscode.NotebookCellKind.Code) {
+					return;
+				}
+				const cellUri = uri.with({ fragment: String(index) });
+				let doc = this._importedCells.get(cellUri.toString());
+				if (!doc) {
+					doc = new ImportedCell(cellUri);
+					this._importedCells.set(cellUri.toString(), doc);
+				}
+				doc.update(cell.value);
+				result.push(doc);
+			});
+			return result;
+		} catch (err) {
+			console.warn(`FAILED to import '${uri.toString()}'`, err);
+			return [];
+		}
 	}
 
 	lookupProject(uri: vscode.Uri): Project;
@@ -204,6 +499,12 @@ export class ProjectContainer {
 				}
 			}
 		}
+		for (let project of this._associations.values()) {
+			if (project.isImported(uri)) {
+				// a file that a notebook imports
+				return project;
+			}
+		}
 		if (!fallback) {
 			return undefined;
 		}
@@ -211,7 +512,51 @@ export class ProjectContainer {
 		return new Project();
 	}
 
+	// applies parameter values right away instead of waiting for the change of the notebook metadata
+	setParameters(notebook: vscode.NotebookDocument, values: ParameterValues): void {
+		const project = this.lookupProject(notebook.uri, false);
+		if (project) {
+			project.setParameters(values);
+			this._onDidChange.fire(project);
+		}
+	}
+
+	// the host and account that the queries of a cell run against, the account
+	// that is selected for the notebook unless the cell asks for another one
+	cellTarget(cell: vscode.NotebookCell): QueryTarget {
+		const project = this.lookupProject(cell.notebook.uri);
+		const [target = project.notebookTarget()] = project.queryData(project.getOrCreate(cell.document));
+		return { host: target.host, account: target.account ?? cell.notebook.metadata?.account };
+	}
+
+	// like `cellTarget` but for what isn't specific to a cell
+	notebookTarget(notebook: vscode.NotebookDocument): QueryTarget {
+		const { host, account } = this.lookupProject(notebook.uri).notebookTarget();
+		return { host, account: account ?? notebook.metadata?.account };
+	}
+
+	// the target of a cell, or of the first notebook that imports a document
+	documentTarget(document: ProjectDocument): QueryTarget {
+		for (const [notebook, project] of this._associations) {
+			const cell = notebook.getCells().find(cell => cell.document === document);
+			if (cell) {
+				return this.cellTarget(cell);
+			}
+			if (project.isImported(document.uri)) {
+				return this.notebookTarget(notebook);
+			}
+		}
+		return {};
+	}
+
 	all(): Iterable<Project> {
 		return this._associations.values();
 	}
 }
+
+// paths are relative to the file that imports, for cells that is their notebook
+function resolveImport(from: vscode.Uri, path: string): vscode.Uri {
+	const notebook = vscode.workspace.notebookDocuments.find(notebook => notebook.getCells().some(cell => cell.document.uri.toString() === from.toString()));
+	const base = notebook?.uri ?? from.with({ fragment: '' });
+	return path.startsWith('/') ? base.with({ path }) : vscode.Uri.joinPath(base, '..', path);
+}
@@ -0,0 +1,166 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { RequestError } from '@octokit/request-error';
+import * as vscode from 'vscode';
+import { QueryTarget } from './project.js';
+
+type ResponseHeaders = { [header: string]: string | number | undefined; };
+
+export interface ScheduleOptions extends QueryTarget {
+	token?: vscode.CancellationToken;
+	onQueued?(): void;
+	onWaiting?(until: number): void;
+}
+
+export interface Clock {
+	now(): number;
+	wait(until: number, token?: vscode.CancellationToken): Promise<void>;
+}
+
+const systemClock: Clock = { now: () => Date.now(), wait };
+
+// runs search requests one after the other so that we stay within the rate limit
+// of the search API, requests that hit the limit anyways are retried later. GitHub
+// limits searches per host and token, so each host and account has its own queue
+export class RequestScheduler {
+
+	private readonly _queues = new Map<string, RequestQueue>();
+
+	constructor(private readonly _clock: Clock = systemClock) { }
+
+	schedule<T extends { headers: ResponseHeaders; }>(request: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+		const key = JSON.stringify([options.host, options.account]);
+		let queue = this._queues.get(key);
+		if (!queue) {
+			queue = new RequestQueue(this._clock);
+			this._queues.set(key, queue);
+		}
+		return queue.schedule(request, options);
+	}
+}
+
+class RequestQueue {
+
+	private static readonly _maxRetries = 3;
+	private static readonly _window = 60 * 1000;
+	private static readonly _backoff = 60 * 1000;
+
+	private _tail: Promise<unknown> = Promise.resolve();
+	private _size = 0;
+
+	private _limit = 30;
+	private _remaining: number | undefined;
+	private _reset = 0;
+	private _blockedUntil = 0;
+	private _recent: number[] = [];
+
+	constructor(private readonly _clock: Clock) { }
+
+	schedule<T extends { headers: ResponseHeaders; }>(request: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+		if (this._size > 0) {
+			options.onQueued?.();
+		}
+		this._size += 1;
+		const result = this._tail.then(() => this._run(request, options)).finally(() => this._size -= 1);
+		this._tail = result.catch(() => { /* the next request runs anyways */ });
+		return result;
+	}
+
+	private async _run<T extends { headers: ResponseHeaders; }>(request: () => Promise<T>, options: ScheduleOptions): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+
+			const until = this._nextSlot();
+			if (until > this._clock.now()) {
+				options.onWaiting?.(until);
+				await this._clock.wait(until, options.token);
+			}
+			if (options.token?.isCancellationRequested) {
+				throw new vscode.CancellationError();
+			}
+
+			this._recent.push(this._clock.now());
+			try {
+				const response = await request();
+				this._update(response.headers);
+				return response;
+
+			} catch (err) {
+				if (!(err instanceof RequestError) || !isRateLimited(err) || attempt >= RequestQueue._maxRetries) {
+					throw err;
+				}
+				const headers: ResponseHeaders = err.response?.headers ?? {};
+				this._update(headers);
+
+				const now = this._clock.now();
+				const retryAfter = Number(headers['retry-after']);
+				if (retryAfter > 0) {
+					this._blockedUntil = now + retryAfter * 1000;
+				} else if (this._remaining !== 0 || this._reset <= now) {
+					// secondary rate limit without a hint when to continue, wait
+					// a minute and longer with every attempt
+					this._blockedUntil = now + RequestQueue._backoff * 2 ** attempt;
+				}
+			}
+		}
+	}
+
+	private _nextSlot(): number {
+		const now = this._clock.now();
+		this._recent = this._recent.filter(time => now - time < RequestQueue._window);
+
+		let result = this._blockedUntil;
+		if (this._remaining === 0) {
+			result = Math.max(result, this._reset);
+		}
+		if (this._recent.length >= this._limit) {
+			result = Math.max(result, this._recent[this._recent.length - this._limit] + RequestQueue._window);
+		}
+		return result;
+	}
+
+	private _update(headers: ResponseHeaders): void {
+		const limit = Number(headers['x-ratelimit-limit']);
+		const remaining = Number(headers['x-ratelimit-remaining']);
+		const reset = Number(headers['x-ratelimit-reset']);
+		if (limit > 0) {
+			this._limit = limit;
+		}
+		if (!Number.isNaN(remaining) && headers['x-ratelimit-remaining'] !== undefined) {
+			this._remaining = remaining;
+		}
+		if (reset > 0) {
+			// seconds since epoch
+			this._reset = reset * 1000;
+		}
+	}
+}
+
+// 429 is always about rate limits but 403 is also used for missing permissions
+function isRateLimited(err: RequestError): boolean {
+	if (err.status === 429) {
+		return true;
+	}
+	if (err.status !== 403) {
+		return false;
+	}
+	const headers = err.response?.headers ?? {};
+	return headers['retry-after'] !== undefined
+		|| Number(headers['x-ratelimit-remaining']) === 0
+		|| /rate limit/i.test(err.message);
+}
+
+function wait(until: number, token?: vscode.CancellationToken): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const handle = setTimeout(() => {
+			listener?.dispose();
+			resolve();
+		}, until - Date.now());
+		const listener = token?.onCancellationRequested(() => {
+			clearTimeout(handle);
+			reject(new vscode.CancellationError());
+		});
+	});
+}
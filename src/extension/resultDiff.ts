@@ -0,0 +1,28 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ResultDiff, SearchIssuesAndPullRequestsResponseItemsItem } from '../common/types.js';
+
+type Item = SearchIssuesAndPullRequestsResponseItemsItem;
+
+// compares the results of two runs of a cell by issue url
+export function diffResults(previous: readonly Item[], current: readonly Item[]): ResultDiff {
+	const before = new Map(previous.map(item => [item.url, item]));
+	const after = new Set(current.map(item => item.url));
+
+	const added = new Set<string>();
+	const changed = new Set<string>();
+	for (const item of current) {
+		const old = before.get(item.url);
+		if (!old) {
+			added.add(item.url);
+		} else if (old.updated_at !== item.updated_at) {
+			changed.add(item.url);
+		}
+	}
+	const removed = [...before.values()].filter(item => !after.has(item.url));
+
+	return { added: [...added], changed: [...changed], removed };
+}
@@ -0,0 +1,168 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { RequestError } from '@octokit/request-error';
+import { Octokit } from '@octokit/rest';
+import * as vscode from 'vscode';
+import { QueryData } from './project.js';
+import { RequestScheduler, ScheduleOptions } from './requestScheduler.js';
+
+export type SearchResult = Awaited<ReturnType<Octokit['rest']['search']['issuesAndPullRequests']>>['data'];
+export type SearchParameters = NonNullable<Parameters<Octokit['rest']['search']['issuesAndPullRequests']>[0]>;
+
+export interface SearchOptions extends ScheduleOptions {
+	force?: boolean;
+	signal?: AbortSignal;
+}
+
+interface CacheEntry {
+	data: SearchResult;
+	etag: string | undefined;
+	timestamp: number;
+}
+
+// a request that multiple callers wait for, it is cancelled when all of them have cancelled
+interface PendingRequest {
+	result: Promise<SearchResult>;
+	waiters: Set<SearchOptions>;
+	abort: AbortController;
+	cancel: vscode.CancellationTokenSource;
+}
+
+function getConfiguredTtl(): number {
+	return vscode.workspace.getConfiguration('github-issues').get<number>('cache.ttl', 60) * 1000;
+}
+
+export class SearchCache {
+
+	private static readonly _maxSize = 500;
+
+	private readonly _entries = new Map<string, CacheEntry>();
+	private readonly _pending = new Map<string, PendingRequest>();
+
+	constructor(
+		private readonly _scheduler: RequestScheduler,
+		private readonly _ttl: () => number = getConfiguredTtl
+	) { }
+
+	clear(): void {
+		this._entries.clear();
+	}
+
+	search(octokit: Octokit, query: QueryData, page: number, options: SearchOptions = {}): Promise<SearchResult> {
+		const key = JSON.stringify([query.host, query.account, query.q, query.sort, query.order, page]);
+
+		const entry = this._entries.get(key);
+		if (entry && !options.force && Date.now() - entry.timestamp < this._ttl()) {
+			return Promise.resolve(entry.data);
+		}
+
+		// the same query might be run by multiple cells at once, forced requests
+		// don't join one that might have started before the data changed
+		let pending = options.force ? undefined : this._pending.get(key);
+		if (!pending) {
+			pending = this._start(octokit, key, query, page, entry);
+		}
+		return this._join(pending, options);
+	}
+
+	private _start(octokit: Octokit, key: string, query: QueryData, page: number, entry: CacheEntry | undefined): PendingRequest {
+		const waiters = new Set<SearchOptions>();
+		const abort = new AbortController();
+		const cancel = new vscode.CancellationTokenSource();
+		const result = this._fetch(octokit, key, query, page, entry, {
+			host: query.host,
+			account: query.account,
+			signal: abort.signal,
+			token: cancel.token,
+			onQueued: () => waiters.forEach(options => options.onQueued?.()),
+			onWaiting: until => waiters.forEach(options => options.onWaiting?.(until)),
+		});
+		const pending: PendingRequest = { result, waiters, abort, cancel };
+		this._pending.set(key, pending);
+		result.catch(() => { /* handled by the waiters */ }).finally(() => {
+			if (this._pending.get(key) === pending) {
+				this._pending.delete(key);
+			}
+			cancel.dispose();
+		});
+		return pending;
+	}
+
+	private _join(pending: PendingRequest, options: SearchOptions): Promise<SearchResult> {
+		return new Promise<SearchResult>((resolve, reject) => {
+			let done = false;
+			const leave = (cancelled: boolean) => {
+				if (done) {
+					return;
+				}
+				done = true;
+				options.signal?.removeEventListener('abort', onCancel);
+				listener?.dispose();
+				pending.waiters.delete(options);
+				if (cancelled && pending.waiters.size === 0) {
+					// nobody is waiting anymore
+					pending.abort.abort();
+					pending.cancel.cancel();
+				}
+			};
+			const onCancel = () => {
+				leave(true);
+				reject(new vscode.CancellationError());
+			};
+			if (options.signal?.aborted || options.token?.isCancellationRequested) {
+				// join and leave so that the request is cancelled when nobody else waits
+				pending.waiters.add(options);
+				onCancel();
+				return;
+			}
+			pending.waiters.add(options);
+			options.signal?.addEventListener('abort', onCancel);
+			const listener = options.token?.onCancellationRequested(onCancel);
+			pending.result.then(data => {
+				leave(false);
+				resolve(data);
+			}, err => {
+				leave(false);
+				reject(err);
+			});
+		});
+	}
+
+	private async _fetch(octokit: Octokit, key: string, query: QueryData, page: number, entry: CacheEntry | undefined, options: SearchOptions): Promise<SearchResult> {
+		try {
+			const response = await this._scheduler.schedule(() => octokit.rest.search.issuesAndPullRequests({
+				q: query.q,
+				// the sort:-qualifier isn't validated, github ignores unknown values
+				sort: <SearchParameters['sort']>query.sort,
+				order: query.order,
+				per_page: 100,
+				page,
+				headers: entry?.etag ? { 'if-none-match': entry.etag } : undefined,
+				request: { signal: options.signal }
+			}), options);
+			this._set(key, { data: response.data, etag: response.headers.etag, timestamp: Date.now() });
+			return response.data;
+
+		} catch (err) {
+			if (entry && err instanceof RequestError && err.status === 304) {
+				// not modified, doesn't count against the rate limit
+				this._set(key, { ...entry, timestamp: Date.now() });
+				return entry.data;
+			}
+			throw err;
+		}
+	}
+
+	private _set(key: string, entry: CacheEntry): void {
+		// re-insert so that the map is ordered by last use
+		this._entries.delete(key);
+		this._entries.set(key, entry);
+		if (this._entries.size > SearchCache._maxSize) {
+			const [oldest] = this._entries.keys();
+			this._entries.delete(oldest);
+		}
+	}
+}
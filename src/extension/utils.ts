@@ -5,13 +5,25 @@
 
 import { Node, NodeType, QueryDocumentNode, Utils } from "./parser/nodes.js";
 import { QualifiedValueNodeSchema, ValuePlaceholderType } from "./parser/symbols.js";
-import { Project } from "./project.js";
+import { GitHubHost } from "./octokitProvider.js";
+import { Project, QueryData } from "./project.js";
 
 export interface RepoInfo {
 	owner: string;
 	repo: string;
 }
 
+export interface IssueRef extends RepoInfo {
+	number: number;
+	url: string;
+}
+
+// https://api.github.com/repos/owner/repo/issues/123, works for GitHub Enterprise too
+export function parseIssueUrl(url: string): IssueRef | undefined {
+	const match = /\/repos\/([^/]+)\/([^/]+)\/issues\/(\d+)$/.exec(url);
+	return match ? { owner: match[1], repo: match[2], number: Number(match[3]), url } : undefined;
+}
+
 export function* getAllRepos(project: Project): Generator<RepoInfo> {
 
 	const repoStrings: string[] = [];
@@ -73,3 +85,14 @@ export function isUsingAtMe(query: Node, project: Project): number {
 	});
 	return result;
 }
+
+export function getQueryUrl(data: QueryData, host: GitHubHost): string {
+	let q = data.q;
+	if (data.sort) {
+		q += ` sort:${data.sort}`;
+	}
+	if (data.order) {
+		q += `-${data.order}`;
+	}
+	return `${host.webUrl}/issues?q=${encodeURIComponent(q)}`;
+}
@@ -0,0 +1,17 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// cells can be run again periodically, the interval is in minutes
+export interface WatchSettings {
+	interval: number;
+}
+
+// shorter intervals would use up the search rate limit
+export const minWatchInterval = 5;
+
+export function getWatchSettings(metadata: { [key: string]: any; } | undefined): WatchSettings | undefined {
+	const watch = metadata?.watch;
+	return typeof watch?.interval === 'number' && watch.interval >= minWatchInterval ? watch : undefined;
+}
@@ -4,14 +4,42 @@
 
 import { h, render } from 'preact';
 import type { ActivationFunction } from 'vscode-notebook-renderer';
+import { BulkAction, ExtensionMessage, IssueDetails, IssuesOutputMetadata, IssuesView, RendererMessage } from '../common/types';
 import { AllItems } from './renderer';
 import rendererCss from './renderer.css';
 
-export const activate: ActivationFunction = () => {
+// views that changed since the output was created, outputs are rendered again when scrolled into view
+const views = new Map<string, IssuesView>();
+
+// details of issues by output and url, they are fetched by the extension when an item is expanded
+// and forgotten with their output, e.g. when running the cell again
+const details = new Map<string, Map<string, Promise<IssueDetails>>>();
+const pendingDetails = new Map<string, { outputId: string; resolve(details: IssueDetails): void; reject(err: Error): void; }[]>();
+
+// output ids by the id of the output item that shows them
+const outputIds = new Map<string, string>();
+
+export const activate: ActivationFunction = context => {
 	const style = document.createElement('style');
 	style.type = 'text/css';
 	style.textContent = rendererCss;
 
+	context.onDidReceiveMessage?.((message: ExtensionMessage) => {
+		if (message.type === 'details') {
+			const pending = pendingDetails.get(message.url) ?? [];
+			pendingDetails.delete(message.url);
+			for (const { outputId, resolve, reject } of pending) {
+				if (message.details) {
+					resolve(message.details);
+				} else {
+					// try again when expanded the next time
+					details.get(outputId)?.delete(message.url);
+					reject(new Error(message.error));
+				}
+			}
+		}
+	});
+
 	return {
 		renderOutputItem(info, element) {
 			let shadow = element.shadowRoot;
@@ -24,7 +52,57 @@ export const activate: ActivationFunction = () => {
 				root.id = 'root';
 				shadow.append(root);
 			}
-			render(<AllItems items={info.json()} />, shadow.querySelector('#root')!);
+			const metadata = info.metadata as IssuesOutputMetadata | undefined;
+			const outputId = metadata?.outputId;
+			if (outputId) {
+				outputIds.set(info.id, outputId);
+			}
+			const view = outputId && views.get(outputId);
+			const onDidChangeView = (view: IssuesView) => {
+				if (outputId) {
+					views.set(outputId, view);
+					const message: RendererMessage = { type: 'view', outputId, view };
+					context.postMessage?.(message);
+				}
+			};
+			const onDidChangeHiddenCount = (count: number) => {
+				if (outputId) {
+					const message: RendererMessage = { type: 'hiddenCount', outputId, count };
+					context.postMessage?.(message);
+				}
+			};
+			// only when the extension can receive messages
+			const onBulkAction = outputId && context.postMessage ? (action: BulkAction, urls: string[]) => {
+				const message: RendererMessage = { type: 'bulk', outputId, action, urls };
+				context.postMessage?.(message);
+			} : undefined;
+			const fetchDetails = outputId && context.postMessage ? (url: string) => {
+				let outputDetails = details.get(outputId);
+				if (!outputDetails) {
+					outputDetails = new Map();
+					details.set(outputId, outputDetails);
+				}
+				let result = outputDetails.get(url);
+				if (!result) {
+					result = new Promise<IssueDetails>((resolve, reject) => pendingDetails.set(url, [...pendingDetails.get(url) ?? [], { outputId, resolve, reject }]));
+					outputDetails.set(url, result);
+					const message: RendererMessage = { type: 'details', outputId, url };
+					context.postMessage?.(message);
+				}
+				return result;
+			} : undefined;
+			render(<AllItems items={info.json()} metadata={view ? { ...metadata!, view } : metadata} onDidChangeView={onDidChangeView} onDidChangeHiddenCount={onDidChangeHiddenCount} onBulkAction={onBulkAction} fetchDetails={fetchDetails} />, shadow.querySelector('#root')!);
+		},
+		disposeOutputItem(id) {
+			// all outputs are gone without an id
+			const ids = id ? [id] : [...outputIds.keys()];
+			for (const id of ids) {
+				const outputId = outputIds.get(id);
+				outputIds.delete(id);
+				if (outputId && ![...outputIds.values()].includes(outputId)) {
+					details.delete(outputId);
+				}
+			}
 		},
 	};
 };
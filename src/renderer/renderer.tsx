@@ -2,17 +2,23 @@
  * Copyright (C) Microsoft Corporation. All rights reserved.
  *--------------------------------------------------------*/
 
-import { FunctionComponent, h } from 'preact';
+import DOMPurify from 'dompurify';
+import { ComponentChild, FunctionComponent, h } from 'preact';
 import { useEffect, useMemo, useState } from 'preact/hooks';
 import { withEmoji } from '../common/emoji';
-import { SearchIssuesAndPullRequestsResponseItemsItem, SearchIssuesAndPullRequestsResponseItemsItemLabelsItem, SearchIssuesAndPullRequestsResponseItemsItemUser } from '../common/types';
+import { fromNow } from '../common/time';
+import { BulkAction, IssueDetails, IssuesOutputMetadata, IssuesView, ResultDiff, SearchIssuesAndPullRequestsResponseItemsItem, SearchIssuesAndPullRequestsResponseItemsItemLabelsItem, SearchIssuesAndPullRequestsResponseItemsItemUser } from '../common/types';
 import { IssueClosedIcon, IssueOpenIcon, PRIcon } from './icons';
 
 const defaultMaxCount = 13;
 
-export const AllItems: FunctionComponent<{ items: ReadonlyArray<SearchIssuesAndPullRequestsResponseItemsItem>; }> = ({ items: rawItems }) => {
+export const AllItems: FunctionComponent<{ items: ReadonlyArray<SearchIssuesAndPullRequestsResponseItemsItem>; metadata?: IssuesOutputMetadata; onDidChangeView?(view: IssuesView): void; onDidChangeHiddenCount?(count: number): void; onBulkAction?(action: BulkAction, urls: string[]): void; fetchDetails?(url: string): Promise<IssueDetails>; }> = ({ items: rawItems, metadata, onDidChangeView, onDidChangeHiddenCount, onBulkAction, fetchDetails }) => {
 	const [hidden, setHidden] = useState<number[]>([]);
-	const items = useMemo(() => {
+	const [view, setView] = useState<IssuesView>(metadata?.view ?? defaultView);
+	const [collapsed, setCollapsed] = useState(true);
+	const [filter, setFilter] = useState<Filter>(emptyFilter);
+	const [selected, setSelected] = useState<string[]>([]);
+	const unfiltered = useMemo(() => {
 		const seen = new Set<string>();
 		return rawItems.filter(item => {
 			if (hidden.includes(item.id)) {
@@ -27,62 +33,537 @@ export const AllItems: FunctionComponent<{ items: ReadonlyArray<SearchIssuesAndP
 			return true;
 		});
 	}, [rawItems, hidden]);
+	const items = useMemo(() => unfiltered.filter(item => matchesFilter(item, filter)), [unfiltered, filter]);
+	const total = useMemo(() => new Set(rawItems.map(item => item.url)).size, [rawItems]);
 
 	// reset hidden items running a new or different query
 	useEffect(() => setHidden([]), [rawItems]);
+	useEffect(() => setFilter(emptyFilter), [rawItems]);
+	useEffect(() => setView(metadata?.view ?? defaultView), [rawItems]);
+	useEffect(() => setSelected([]), [rawItems]);
+
+	// hidden and filtered items show in the cell status bar
+	useEffect(() => onDidChangeHiddenCount?.(total - items.length), [total, items.length]);
+
+	const changeView = (newView: IssuesView) => {
+		setView(newView);
+		onDidChangeView?.(newView);
+	};
+
+	const hasManyRepos = view.groupBy !== 'repository' && items.some(item => item.repository_url !== items[0].repository_url);
+	const hide = (item: SearchIssuesAndPullRequestsResponseItemsItem) => setHidden([...hidden, item.id]);
+
+	// items can only be changed when the extension is listening
+	const selection = onBulkAction && {
+		isSelected: (item: SearchIssuesAndPullRequestsResponseItemsItem) => selected.includes(item.url),
+		toggle: (item: SearchIssuesAndPullRequestsResponseItemsItem) => setSelected(selected.includes(item.url) ? selected.filter(url => url !== item.url) : [...selected, item.url]),
+	};
+	const selectedItems = items.filter(item => selected.includes(item.url));
+
+	const diff = metadata?.diff;
+	const changeOf = (item: SearchIssuesAndPullRequestsResponseItemsItem): Change | undefined => diff?.added.includes(item.url) ? 'new' : diff?.changed.includes(item.url) ? 'changed' : undefined;
 
-	const hasManyRepos = items.some(item => item.repository_url !== items[0].repository_url);
 	const renderItem = (item: SearchIssuesAndPullRequestsResponseItemsItem) =>
-		<Item key={item.id} item={item} hide={() => setHidden([...hidden, item.id])} showRepo={hasManyRepos} />;
+		<Item key={item.id} item={item} hide={() => hide(item)} showRepo={hasManyRepos} selection={selection} fetchDetails={fetchDetails} change={changeOf(item)} />;
+	const renderItems = (items: SearchIssuesAndPullRequestsResponseItemsItem[]) => view.mode === 'table'
+		? <Table items={items} view={view} setView={changeView} hide={hide} selection={selection} fetchDetails={fetchDetails} changeOf={changeOf} />
+		: <div>{items.map(renderItem)}</div>;
+
+	const notices = metadata && <div>
+		<Notices metadata={metadata} />
+		{diff && <DiffNotice key={metadata.outputId} diff={diff} />}
+	</div>;
+	const toolbar = unfiltered.length > 0 && <div>
+		<FilterBar items={unfiltered} filter={filter} setFilter={setFilter} />
+		<Toolbar view={view} setView={changeView} />
+		{onBulkAction && selectedItems.length > 0 && <BulkBar
+			count={selectedItems.length}
+			total={items.length}
+			selectAll={() => setSelected(items.map(item => item.url))}
+			clear={() => setSelected([])}
+			run={action => onBulkAction(action, selectedItems.map(item => item.url))}
+		/>}
+	</div>;
 
-	if (items.length <= defaultMaxCount) {
-		return <div>{items.map(renderItem)}</div>;
+	const sorted = view.mode === 'table' ? sortItems(items, view.sort) : items;
+
+	if (view.groupBy) {
+		// groups can be collapsed, so no need to limit the number of items
+		return <div>
+			{notices}
+			{toolbar}
+			{groupItems(sorted, view.groupBy).map(group =>
+				<details key={group.key} className="group" open>
+					<summary>{group.title} <span className="count">{group.items.length}</span></summary>
+					{renderItems(group.items)}
+				</details>
+			)}
+		</div>;
 	}
 
-	const [collapsed, setCollapsed] = useState(true);
-	const di = collapsed ? items.slice(0, defaultMaxCount) : items;
+	const isLarge = sorted.length > defaultMaxCount;
+	const di = isLarge && collapsed ? sorted.slice(0, defaultMaxCount) : sorted;
 
-	return <div className='large'>
-		{di.map(renderItem)}
-		<div className="collapse">
-			<CollapseButton n={items.length} setCollapsed={setCollapsed} collapsed={collapsed} />
-		</div>
+	return <div className={isLarge ? 'large' : undefined}>
+		{notices}
+		{toolbar}
+		{renderItems(di)}
+		{isLarge && <div className="collapse">
+			<CollapseButton n={sorted.length} setCollapsed={setCollapsed} collapsed={collapsed} />
+		</div>}
 	</div>;
 };
 
+const defaultView: IssuesView = { mode: 'list' };
+
+
+interface Filter {
+	text: string;
+	// selected values by property, an item matches when it has one of the values of each property
+	facets: { [property in ItemProperty]?: string[] };
+}
+
+const emptyFilter: Filter = { text: '', facets: {} };
+
+const facetProperties: { property: ItemProperty; title: string; }[] = [
+	{ property: 'label', title: 'Labels' },
+	{ property: 'assignee', title: 'Assignees' },
+	{ property: 'author', title: 'Authors' },
+	{ property: 'state', title: 'State' },
+];
+
+const maxFacetValues = 10;
+
+function matchesFilter(item: SearchIssuesAndPullRequestsResponseItemsItem, filter: Filter): boolean {
+	const text = filter.text.trim().toLowerCase();
+	if (text && !item.title.toLowerCase().includes(text) && !item.body?.toLowerCase().includes(text)) {
+		return false;
+	}
+	for (const [property, selected] of Object.entries(filter.facets)) {
+		if (selected && selected.length > 0 && !valuesOf(item, property as ItemProperty).some(value => selected.includes(value))) {
+			return false;
+		}
+	}
+	return true;
+}
+
+
+const FilterBar: FunctionComponent<{ items: ReadonlyArray<SearchIssuesAndPullRequestsResponseItemsItem>; filter: Filter; setFilter(filter: Filter): void; }> = ({ items, filter, setFilter }) => {
+
+	// the most common values of each property, only when there is something to choose from
+	const facets = useMemo(() => facetProperties.map(({ property, title }) => {
+		const counts = new Map<string, number>();
+		for (const item of items) {
+			for (const value of valuesOf(item, property)) {
+				counts.set(value, (counts.get(value) ?? 0) + 1);
+			}
+		}
+		const values = [...counts].sort((a, b) => b[1] - a[1]).slice(0, maxFacetValues);
+		return { property, title, values };
+	}).filter(facet => facet.values.length > 1), [items]);
+
+	const toggle = (property: ItemProperty, value: string) => {
+		const selected = filter.facets[property] ?? [];
+		setFilter({
+			...filter,
+			facets: { ...filter.facets, [property]: selected.includes(value) ? selected.filter(candidate => candidate !== value) : [...selected, value] }
+		});
+	};
+
+	return <div className="filter-bar">
+		<input type="search" placeholder="Filter by title or body" value={filter.text} onInput={e => setFilter({ ...filter, text: e.currentTarget.value })} />
+		{facets.map(facet =>
+			<div className="facet" key={facet.property}>
+				<span className="facet-title">{facet.title}</span>
+				{facet.values.map(([value, count]) =>
+					<a role='button' key={value} className={filter.facets[facet.property]?.includes(value) ? 'chip active' : 'chip'} onClick={() => toggle(facet.property, value)}>
+						{facet.property === 'label' ? withEmoji(value) : value} <span className="count">{count}</span>
+					</a>
+				)}
+			</div>
+		)}
+	</div>;
+};
+
+
+const Toolbar: FunctionComponent<{ view: IssuesView; setView(view: IssuesView): void; }> = ({ view, setView }) =>
+	<div className="toolbar">
+		<span className="view-toggle">
+			<a role='button' className={view.mode === 'list' ? 'active' : undefined} onClick={() => setView({ ...view, mode: 'list' })}>List</a>
+			<a role='button' className={view.mode === 'table' ? 'active' : undefined} onClick={() => setView({ ...view, mode: 'table' })}>Table</a>
+		</span>
+		<label className="group-by">
+			Group by <select value={view.groupBy ?? ''} onChange={e => setView({ ...view, groupBy: (e.currentTarget.value || undefined) as IssuesView['groupBy'] })}>
+				<option value="">None</option>
+				<option value="repository">Repository</option>
+				<option value="label">Label</option>
+				<option value="assignee">Assignee</option>
+				<option value="milestone">Milestone</option>
+				<option value="state">State</option>
+			</select>
+		</label>
+		{view.mode === 'table' && <ColumnPicker view={view} setView={setView} />}
+	</div>;
+
+
+const bulkActions: { action: BulkAction; title: string; }[] = [
+	{ action: 'addLabel', title: 'Add Label' },
+	{ action: 'removeLabel', title: 'Remove Label' },
+	{ action: 'assign', title: 'Assign' },
+	{ action: 'unassign', title: 'Unassign' },
+	{ action: 'setMilestone', title: 'Set Milestone' },
+	{ action: 'close', title: 'Close' },
+	{ action: 'reopen', title: 'Reopen' },
+	{ action: 'lock', title: 'Lock' },
+];
+
+const BulkBar: FunctionComponent<{ count: number; total: number; selectAll(): void; clear(): void; run(action: BulkAction): void; }> = ({ count, total, selectAll, clear, run }) =>
+	<div className="bulk-bar">
+		<span className="bulk-count">{count} selected</span>
+		{count < total && <a role='button' onClick={selectAll}>Select all {total}</a>}
+		<a role='button' onClick={clear}>Clear</a>
+		<span className="bulk-actions">
+			{bulkActions.map(({ action, title }) => <a role='button' key={action} onClick={() => run(action)}>{title}</a>)}
+		</span>
+	</div>;
+
+
+interface Selection {
+	isSelected(item: SearchIssuesAndPullRequestsResponseItemsItem): boolean;
+	toggle(item: SearchIssuesAndPullRequestsResponseItemsItem): void;
+}
+
+
+const ColumnPicker: FunctionComponent<{ view: IssuesView; setView(view: IssuesView): void; }> = ({ view, setView }) => {
+	const hiddenColumns = view.hiddenColumns ?? [];
+	const toggle = (id: string) => setView({
+		...view,
+		hiddenColumns: hiddenColumns.includes(id) ? hiddenColumns.filter(candidate => candidate !== id) : [...hiddenColumns, id]
+	});
+	return <details className="columns">
+		<summary>Columns</summary>
+		<div className="columns-list">
+			{columns.map(column =>
+				<label key={column.id}>
+					<input type="checkbox" checked={!hiddenColumns.includes(column.id)} onChange={() => toggle(column.id)} />
+					{column.title}
+				</label>
+			)}
+		</div>
+	</details>;
+};
+
+
+const Table: FunctionComponent<{
+	items: ReadonlyArray<SearchIssuesAndPullRequestsResponseItemsItem>;
+	view: IssuesView;
+	setView(view: IssuesView): void;
+	hide(item: SearchIssuesAndPullRequestsResponseItemsItem): void;
+	selection?: Selection;
+	fetchDetails?(url: string): Promise<IssueDetails>;
+	changeOf?(item: SearchIssuesAndPullRequestsResponseItemsItem): Change | undefined;
+}> = ({ items, view, setView, hide, selection, fetchDetails, changeOf }) => {
+	const visible = columns.filter(column => !view.hiddenColumns?.includes(column.id));
+	const [expanded, setExpanded] = useState<number[]>([]);
+	const toggleDetails = (item: SearchIssuesAndPullRequestsResponseItemsItem) => setExpanded(expanded.includes(item.id) ? expanded.filter(id => id !== item.id) : [...expanded, item.id]);
+
+	// first click sorts ascending, second descending, third restores the order of the query
+	const sortBy = (id: string) => {
+		let sort = view.sort;
+		if (sort?.column !== id) {
+			sort = { column: id, descending: false };
+		} else if (!sort.descending) {
+			sort = { column: id, descending: true };
+		} else {
+			sort = undefined;
+		}
+		setView({ ...view, sort });
+	};
+
+	return <table className="items-table">
+		<thead>
+			<tr>
+				{selection && <th />}
+				{visible.map(column =>
+					<th key={column.id} onClick={() => sortBy(column.id)} title={`Sort by ${column.title}`}>
+						{column.title}
+						{view.sort?.column === column.id && (view.sort.descending ? ' ▼' : ' ▲')}
+					</th>
+				)}
+				<th />
+			</tr>
+		</thead>
+		<tbody>
+			{items.map(item => [
+				<tr key={item.id} className={selection?.isSelected(item) ? 'selected' : undefined}>
+					{selection && <td className="select"><input type="checkbox" checked={selection.isSelected(item)} onChange={() => selection.toggle(item)} /></td>}
+					{visible.map(column =>
+						<td key={column.id} className={`column-${column.id}`}>
+							{column.render ? column.render(item) : column.value(item)}
+							{column.id === 'title' && <ChangeBadge change={changeOf?.(item)} />}
+						</td>
+					)}
+					<td className="actions">
+						<a role='button' onClick={() => toggleDetails(item)}>{expanded.includes(item.id) ? 'Less' : 'Details'}</a>{' '}
+						<a role='button' onClick={() => hide(item)}>Hide</a>
+					</td>
+				</tr>,
+				expanded.includes(item.id) && <tr key={`${item.id}-details`} className="details-row">
+					<td colSpan={visible.length + (selection ? 2 : 1)}><ItemDetails item={item} fetchDetails={fetchDetails} /></td>
+				</tr>
+			])}
+		</tbody>
+	</table>;
+};
+
+
+interface Column {
+	id: string;
+	title: string;
+	// used for sorting and, without render-function, for showing
+	value(item: SearchIssuesAndPullRequestsResponseItemsItem): string | number;
+	render?(item: SearchIssuesAndPullRequestsResponseItemsItem): ComponentChild;
+}
+
+const columns: Column[] = [
+	{
+		id: 'number', title: '#',
+		value: item => item.number,
+		render: item => <a href={item.html_url}>#{item.number}</a>
+	},
+	{
+		id: 'title', title: 'Title',
+		value: item => item.title.toLowerCase(),
+		render: item => <a href={item.html_url} className="title">{item.title}</a>
+	},
+	{
+		id: 'state', title: 'State',
+		value: item => item.state,
+		render: item => <span className="item-state">{item.pull_request ? <PRIcon /> : item.closed_at ? <IssueClosedIcon /> : <IssueOpenIcon />}</span>
+	},
+	{
+		id: 'author', title: 'Author',
+		value: item => item.user.login.toLowerCase(),
+		render: item => item.user.login
+	},
+	{
+		id: 'assignees', title: 'Assignees',
+		value: item => item.assignees?.map(user => user.login.toLowerCase()).join(',') ?? '',
+		render: item => <span className="user">{item.assignees?.map(user => <Avatar user={user} key={user.id} />)}</span>
+	},
+	{
+		id: 'labels', title: 'Labels',
+		value: item => item.labels.map(label => label.name.toLowerCase()).join(','),
+		render: item => <span>{item.labels.map(label => <Label label={label} key={label.id} />)}</span>
+	},
+	{
+		id: 'milestone', title: 'Milestone',
+		value: item => item.milestone?.title ?? ''
+	},
+	{
+		id: 'comments', title: 'Comments',
+		value: item => item.comments
+	},
+	{
+		id: 'created', title: 'Created',
+		value: item => Date.parse(item.created_at),
+		render: item => <span title={new Date(item.created_at).toLocaleString()}>{fromNow(Date.parse(item.created_at))}</span>
+	},
+	{
+		id: 'updated', title: 'Updated',
+		value: item => Date.parse(item.updated_at),
+		render: item => <span title={new Date(item.updated_at).toLocaleString()}>{fromNow(Date.parse(item.updated_at))}</span>
+	},
+];
+
+type ItemProperty = NonNullable<IssuesView['groupBy']> | 'author';
+
+function valuesOf(item: SearchIssuesAndPullRequestsResponseItemsItem, property: ItemProperty): string[] {
+	switch (property) {
+		case 'repository': return [item.repository_url.split('/').slice(-2).join('/')];
+		case 'label': return item.labels.map(label => label.name);
+		case 'assignee': return item.assignees?.map(user => user.login) ?? (item.assignee ? [item.assignee.login] : []);
+		case 'author': return [item.user.login];
+		case 'milestone': return item.milestone ? [item.milestone.title] : [];
+		case 'state': return [item.state];
+	}
+}
+
+interface Group {
+	key: string;
+	title: string;
+	items: SearchIssuesAndPullRequestsResponseItemsItem[];
+}
+
+// items with many labels or assignees are in many groups, items without any are in a group of their own
+function groupItems(items: SearchIssuesAndPullRequestsResponseItemsItem[], groupBy: NonNullable<IssuesView['groupBy']>): Group[] {
+	const noneTitle = { repository: 'No repository', label: 'No label', assignee: 'No assignee', milestone: 'No milestone', state: 'No state' }[groupBy];
+
+	const groups = new Map<string, Group>();
+	const none: Group = { key: '', title: noneTitle, items: [] };
+	for (const item of items) {
+		const keys = valuesOf(item, groupBy);
+		if (keys.length === 0) {
+			none.items.push(item);
+		}
+		for (const key of keys) {
+			let group = groups.get(key);
+			if (!group) {
+				group = { key, title: groupBy === 'label' ? withEmoji(key) : key, items: [] };
+				groups.set(key, group);
+			}
+			group.items.push(item);
+		}
+	}
+
+	// open before closed, everything else by name
+	const result = [...groups.values()].sort((a, b) => groupBy === 'state'
+		? b.key.localeCompare(a.key)
+		: a.key.localeCompare(b.key, undefined, { sensitivity: 'base' }));
+	if (none.items.length > 0) {
+		result.push(none);
+	}
+	return result;
+}
+
+function sortItems(items: SearchIssuesAndPullRequestsResponseItemsItem[], sort: IssuesView['sort']): SearchIssuesAndPullRequestsResponseItemsItem[] {
+	const column = sort && columns.find(column => column.id === sort.column);
+	if (!column) {
+		return items;
+	}
+	const factor = sort!.descending ? -1 : 1;
+	return [...items].sort((a, b) => {
+		const valueA = column.value(a);
+		const valueB = column.value(b);
+		return factor * (valueA < valueB ? -1 : valueA > valueB ? 1 : 0);
+	});
+}
+
 
 const Item: FunctionComponent<{
 	item: SearchIssuesAndPullRequestsResponseItemsItem;
 	hide(): void;
 	showRepo: boolean;
-}> = ({ item, showRepo, hide }) =>
-		<div className='item-row'>
-			<div className='item-main'>
-				<div className="item-state">{item.pull_request ? <PRIcon /> : item.closed_at ? <IssueClosedIcon /> : <IssueOpenIcon />}</div>
-				<div style={{ flex: 'auto', flexBasis: 0 }}>
-					{showRepo && <RepoLabel url={item.repository_url} />}
-					<a href={item.html_url} className="title">{item.title}</a>
-					{item.labels.map(label => <Label label={label} key={label.id} />)}
-				</div>
-				<div className="user">
-					{item.assignees?.map(user => <Avatar user={user} key={user.id} />)}
-				</div>
-
+	selection?: Selection;
+	fetchDetails?(url: string): Promise<IssueDetails>;
+	change?: Change;
+}> = ({ item, showRepo, hide, selection, fetchDetails, change }) => {
+	const [expanded, setExpanded] = useState(false);
+	return <div className={selection?.isSelected(item) ? 'item-row selected' : 'item-row'}>
+		<div className='item-main'>
+			{selection && <div className="item-select"><input type="checkbox" checked={selection.isSelected(item)} onChange={() => selection.toggle(item)} /></div>}
+			<div className="item-state">{item.pull_request ? <PRIcon /> : item.closed_at ? <IssueClosedIcon /> : <IssueOpenIcon />}</div>
+			<div style={{ flex: 'auto', flexBasis: 0 }}>
+				{showRepo && <RepoLabel url={item.html_url} />}
+				<a href={item.html_url} className="title">{item.title}</a>
+				<ChangeBadge change={change} />
+				{item.labels.map(label => <Label label={label} key={label.id} />)}
 			</div>
-
-			<div className="status">
-				<span>#{item.number} opened {new Date(item.created_at).toLocaleDateString()} by {item.user.login}</span>
-				<span style={{ flex: 1 }} />
-				<ul className='actions'>
-					<li><a role='button' onClick={hide}>Hide</a></li>
-				</ul>
+			<div className="user">
+				{item.assignees?.map(user => <Avatar user={user} key={user.id} />)}
 			</div>
+
+		</div>
+
+		<div className="status">
+			<span>#{item.number} opened {new Date(item.created_at).toLocaleDateString()} by {item.user.login}</span>
+			<span style={{ flex: 1 }} />
+			<ul className='actions'>
+				<li><a role='button' onClick={() => setExpanded(!expanded)}>{expanded ? 'Less' : 'Details'}</a></li>
+				<li><a role='button' onClick={hide}>Hide</a></li>
+			</ul>
+		</div>
+		{expanded && <ItemDetails item={item} fetchDetails={fetchDetails} />}
+	</div>;
+};
+
+
+// body, recent comments, and linked pull requests of an issue, shows the raw body when the extension isn't listening
+const ItemDetails: FunctionComponent<{ item: SearchIssuesAndPullRequestsResponseItemsItem; fetchDetails?(url: string): Promise<IssueDetails>; }> = ({ item, fetchDetails }) => {
+	const [details, setDetails] = useState<IssueDetails | undefined>();
+	const [error, setError] = useState<string | undefined>();
+
+	useEffect(() => {
+		fetchDetails?.(item.url).then(setDetails, err => setError(String(err?.message ?? err)));
+	}, [item.url]);
+
+	if (!fetchDetails || error) {
+		return <div className="details">
+			{error && <div className="notice">Failed to load details: {error}</div>}
+			<div className="details-body plain">{item.body || 'No description provided.'}</div>
 		</div>;
+	}
+	if (!details) {
+		return <div className="details loading">Loading...</div>;
+	}
+	return <div className="details">
+		<div className="details-body markdown" dangerouslySetInnerHTML={{ __html: details.bodyHtml ? sanitizeHtml(details.bodyHtml) : '<em>No description provided.</em>' }} />
+		{details.pullRequests.length > 0 && <div className="details-prs">
+			<span className="details-title">Linked pull requests</span>
+			{details.pullRequests.map(pr =>
+				<div key={pr.html_url}><a href={pr.html_url}>#{pr.number} {pr.title}</a> <span className="pr-state">{pr.state}</span></div>
+			)}
+		</div>}
+		{details.comments.length > 0 && <div className="details-comments">
+			<span className="details-title">
+				{details.commentCount > details.comments.length ? `Last ${details.comments.length} of ${details.commentCount} comments` : 'Comments'}
+			</span>
+			{details.comments.map(comment =>
+				<div className="comment" key={comment.id}>
+					<div className="comment-header"><a href={comment.html_url}>{comment.user} commented {fromNow(new Date(comment.created_at).getTime())}</a></div>
+					<div className="markdown" dangerouslySetInnerHTML={{ __html: sanitizeHtml(comment.bodyHtml) }} />
+				</div>
+			)}
+		</div>}
+	</div>;
+};
+
+
+const Notices: FunctionComponent<{ metadata: IssuesOutputMetadata; }> = ({ metadata }) =>
+	<div>
+		{metadata.snapshot && <div className="notice" title={new Date(metadata.snapshot.timestamp).toLocaleString()}>
+			Snapshot from {fromNow(metadata.snapshot.timestamp)}. Run the cell to refresh these results.
+		</div>}
+		{metadata.truncated && <div className="notice">
+			Showing {metadata.fetchedCount ?? metadata.itemCount} of {metadata.totalCount?.toLocaleString()} results.
+			{metadata.queryUrls?.map(url => <span key={url}> <a href={url}>Open on GitHub</a></span>)}
+		</div>}
+		{metadata.split && <div className="notice">
+			This query matched more than 1000 results and was split by creation date. Fetching all results took {metadata.split.requestCount} requests.
+		</div>}
+	</div>;
+
+
+type Change = 'new' | 'changed';
+
+const ChangeBadge: FunctionComponent<{ change?: Change; }> = ({ change }) =>
+	change ? <span className={`badge ${change}`} title={change === 'new' ? 'Not in the results of the previous run' : 'Updated since the previous run'}>{change}</span> : null;
+
+
+const DiffNotice: FunctionComponent<{ diff: ResultDiff; }> = ({ diff }) => {
+	const [showRemoved, setShowRemoved] = useState(false);
+	const parts = [
+		diff.added.length > 0 && `${diff.added.length} new`,
+		diff.changed.length > 0 && `${diff.changed.length} changed`,
+		diff.removed.length > 0 && `${diff.removed.length} no longer matching`,
+	].filter(Boolean);
+
+	return <div className="notice diff">
+		{parts.length > 0 ? `Since the previous run: ${parts.join(', ')}.` : 'No changes since the previous run.'}
+		{diff.removed.length > 0 && <span> <a role='button' onClick={() => setShowRemoved(!showRemoved)}>{showRemoved ? 'Hide removed' : 'Show removed'}</a></span>}
+		{showRemoved && <ul className="removed">
+			{diff.removed.map(item =>
+				<li key={item.url}><a href={item.html_url}>#{item.number}</a> {item.title}</li>
+			)}
+		</ul>}
+	</div>;
+};
 
 
 const RepoLabel: FunctionComponent<{ url: string; }> = ({ url }) => {
-	const match = /.+\/(.+\/.+)$/.exec(url);
-	return match ? <a href={`https://github.com/${match[1]}`} className="repo title">{match[1]}</a> : null;
+	// https://host/owner/repo/issues/123, works for GitHub Enterprise too
+	const match = /^(.+\/([^/]+\/[^/]+))\/(issues|pull)\/\d+$/.exec(url);
+	return match ? <a href={match[1]} className="repo title">{match[2]}</a> : null;
 };
 
 
@@ -104,6 +585,13 @@ const CollapseButton: FunctionComponent<{ n: number; collapsed: boolean; setColl
 		: <span className="less" onClick={() => setCollapsed(true)}>▲ Show Less</span>;
 
 
+// GitHub sanitizes the HTML it renders, this is to be safe anyways. Styles and forms would
+// mess with the output
+function sanitizeHtml(html: string): string {
+	return DOMPurify.sanitize(html, { USE_PROFILES: { html: true }, FORBID_TAGS: ['style', 'form', 'input', 'button'] });
+}
+
+
 function getContrastColor(color: string): string {
 	// Color algorithm from https://stackoverflow.com/questions/1855884/determine-font-color-based-on-background-color
 	const r = Number.parseInt(color.substr(0, 2), 16);
@@ -33,4 +33,28 @@ suite('Completions', () => {
 		await assertCompletions('type:|', 'issue', 'pr');
 	});
 
+	test('Labels, milestones, and users of a repository', async function () {
+
+		async function assertCompletions(input: string, ...expected: string[]) {
+
+			const offset = input.indexOf('|');
+			const content = input.substring(0, offset) + input.substring(offset + 1);
+
+			const doc = await vscode.workspace.openTextDocument({ language: 'github-issues', content });
+			const pos = doc.positionAt(offset);
+
+			const result = await vscode.commands.executeCommand<vscode.CompletionList>('vscode.executeCompletionItemProvider', doc.uri, pos);
+
+			const actual = result!.items.map(item => typeof item.label === 'string' ? item.label : item.label.label);
+			for (const label of expected) {
+				assert.ok(actual.includes(label), `${input}: ${label} not in ${actual.join(', ')}`);
+			}
+		}
+
+		// served from the fixtures of the fake GitHub API
+		await assertCompletions('repo:microsoft/vscode label:|', 'bug', 'feature-request', 'notebook', 'verified');
+		await assertCompletions('repo:microsoft/vscode milestone:|', 'May 2020', 'Backlog');
+		await assertCompletions('repo:microsoft/vscode assignee:|', 'bpasero', 'jrieken');
+	});
+
 });
@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+// A local stand-in for the GitHub API that serves recorded responses. The path of a request
+// maps onto a file in the fixtures-folder, e.g. `GET /repos/microsoft/vscode/labels` is
+// answered with `fixtures/repos/microsoft/vscode/labels.json`
+export class FakeGitHub {
+
+	readonly requests: string[] = [];
+
+	private readonly _server = http.createServer((req, res) => this._handle(req, res));
+
+	constructor(readonly fixtures = path.resolve(__dirname, '../../../test/test-integration/fixtures')) { }
+
+	listen(): Promise<string> {
+		return new Promise((resolve, reject) => {
+			this._server.once('error', reject);
+			this._server.listen(0, '127.0.0.1', () => {
+				const address = this._server.address();
+				resolve(typeof address === 'object' && address ? `http://127.0.0.1:${address.port}` : String(address));
+			});
+		});
+	}
+
+	close(): Promise<void> {
+		return new Promise(resolve => this._server.close(() => resolve()));
+	}
+
+	private _handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+		const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+		this.requests.push(`${req.method} ${url.pathname}${url.search}`);
+
+		const headers = {
+			'content-type': 'application/json; charset=utf-8',
+			'x-ratelimit-limit': '30',
+			'x-ratelimit-remaining': '30',
+			'x-ratelimit-reset': String(Math.ceil(Date.now() / 1000) + 60),
+		};
+
+		const file = path.join(this.fixtures, `${url.pathname.replace(/\/+$/, '')}.json`);
+		if (req.method !== 'GET' || !file.startsWith(this.fixtures + path.sep) || !fs.existsSync(file)) {
+			res.writeHead(404, headers);
+			res.end(JSON.stringify({ message: 'Not Found', documentation_url: 'https://docs.github.com/rest' }));
+			return;
+		}
+		res.writeHead(200, headers);
+		res.end(fs.readFileSync(file));
+	}
+}
+
+export const fakeGitHub = new FakeGitHub();
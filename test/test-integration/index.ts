@@ -6,8 +6,20 @@
 import * as glob from 'glob';
 import * as Mocha from 'mocha';
 import * as path from 'path';
+import { fakeGitHub } from './fakeGitHub';
 
-export function run(): Promise<void> {
+export async function run(): Promise<void> {
+	// the extension passes this to its octokit provider when it activates in test mode,
+	// so that tests don't need the network
+	process.env['GITHUB_ISSUES_API_URL'] = await fakeGitHub.listen();
+	try {
+		await runMocha();
+	} finally {
+		await fakeGitHub.close();
+	}
+}
+
+function runMocha(): Promise<void> {
 	// Create the mocha test
 	const mocha = new Mocha({
 		ui: 'tdd',
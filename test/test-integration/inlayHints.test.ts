@@ -0,0 +1,30 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Inlay Hints', () => {
+
+	suiteSetup(async function () {
+		await vscode.extensions.getExtension('ms-vscode.vscode-github-issue-notebooks')?.activate();
+	});
+
+	test('Values of variables and relative dates', async function () {
+
+		const content = '$bugs=label:bug\n$mine(user)=assignee:$user\nrepo:microsoft/vscode $bugs $mine(octocat) updated:>@today-1d';
+		const doc = await vscode.workspace.openTextDocument({ language: 'github-issues', content });
+
+		const range = new vscode.Range(doc.positionAt(0), doc.positionAt(content.length));
+		const result = await vscode.commands.executeCommand<vscode.InlayHint[]>('vscode.executeInlayHintProvider', doc.uri, range);
+		const labels = result.map(hint => typeof hint.label === 'string' ? hint.label : hint.label.map(part => part.value).join(''));
+
+		assert.equal(labels.length, 3, labels.join());
+		assert.equal(labels[0], '= label:bug');
+		assert.equal(labels[1], '= assignee:octocat');
+		assert.ok(/^= \d{4}-\d{2}-\d{2}$/.test(labels[2]), labels[2]);
+	});
+});
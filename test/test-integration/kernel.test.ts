@@ -0,0 +1,46 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { fakeGitHub } from './fakeGitHub';
+
+suite('Kernel', () => {
+
+	suiteSetup(async function () {
+		await vscode.extensions.getExtension('ms-vscode.vscode-github-issue-notebooks')?.activate();
+	});
+
+	async function until<T>(fn: () => T | undefined, timeout = 5000): Promise<T> {
+		const end = Date.now() + timeout;
+		while (Date.now() < end) {
+			const result = fn();
+			if (result) {
+				return result;
+			}
+			await new Promise(resolve => setTimeout(resolve, 50));
+		}
+		throw new Error('timeout');
+	}
+
+	test('running a cell renders the search results', async function () {
+
+		const notebook = await vscode.workspace.openNotebookDocument('github-issues', new vscode.NotebookData([
+			new vscode.NotebookCellData(vscode.NotebookCellKind.Code, 'repo:microsoft/vscode label:notebook is:open', 'github-issues')
+		]));
+		await vscode.window.showNotebookDocument(notebook);
+		await vscode.commands.executeCommand('notebook.selectKernel', { id: 'githubIssueKernel', extension: 'ms-vscode.vscode-github-issue-notebooks' });
+		await vscode.commands.executeCommand('notebook.cell.execute', { ranges: [{ start: 0, end: 1 }], document: notebook.uri });
+
+		const [output] = await until(() => notebook.cellAt(0).outputs.length > 0 ? notebook.cellAt(0).outputs : undefined);
+		const json = output.items.find(item => item.mime === 'x-application/github-issues');
+		assert.ok(json);
+
+		const items: { number: number; }[] = JSON.parse(new TextDecoder().decode(json.data));
+		assert.deepStrictEqual(items.map(item => item.number), [100001, 100002]);
+		assert.strictEqual(output.metadata?.totalCount, 2);
+		assert.ok(fakeGitHub.requests.some(request => request.startsWith('GET /search/issues?')));
+	});
+});
@@ -5,13 +5,14 @@
 
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { Project } from '../../src/extension/project';
+import { ParameterValues, Project } from '../../src/extension/project';
 
 suite('Project', () => {
 
-	async function assertQueryData(content: string, expected: { q: string; sort?: string; order?: string; }[] = [{ q: content }]) {
+	async function assertQueryData(content: string, expected: { q: string; sort?: string; order?: string; host?: string; account?: string; }[] = [{ q: content }], parameters?: ParameterValues) {
 		const doc = await vscode.workspace.openTextDocument({ language: 'github-issues', content });
 		const project = new Project();
+		project.setParameters(parameters);
 		const query = project.getOrCreate(doc);
 		const data = project.queryData(query);
 		for (let actualItem of data) {
@@ -19,6 +20,8 @@ suite('Project', () => {
 			assert.equal(actualItem.q, expectedItem?.q, 'q');
 			assert.equal(actualItem.order, expectedItem?.order, 'order');
 			assert.equal(actualItem.sort, expectedItem?.sort, 'sort');
+			assert.equal(actualItem.host, expectedItem?.host, 'host');
+			assert.equal(actualItem.account, expectedItem?.account, 'account');
 		}
 		assert.equal(expected.length, 0, expected.toString());
 	}
@@ -50,4 +53,38 @@ suite('Project', () => {
 			order: 'asc'
 		}]);
 	});
+
+	test('host and account directives', async function () {
+		await assertQueryData('host:github.example.com repo:foo bug', [{ q: 'repo:foo bug', host: 'github.example.com' }]);
+		await assertQueryData('account:jrieken repo:foo', [{ q: 'repo:foo', account: 'jrieken' }]);
+		await assertQueryData('repo:foo OR repo:bar account:"jrieken"', [{ q: 'repo:foo', account: 'jrieken' }, { q: 'repo:bar', account: 'jrieken' }]);
+		await assertQueryData('$h=github.example.com\nhost:$h repo:foo', [{ q: 'repo:foo', host: 'github.example.com' }]);
+		await assertQueryData('host:github.example.com', []);
+	});
+
+	test('directive-like text is not a directive', async function () {
+		await assertQueryData('repo:foo label:"needs host:bar"');
+		await assertQueryData('repo:foo "account:jrieken"');
+		await assertQueryData('-host:github.example.com repo:foo', [{ q: 'repo:foo' }]);
+	});
+
+	test('parameter values', async function () {
+		const parameters = {
+			'$MILESTONE': '"July 2026"',
+			'$SINCE': '2026-07-01',
+			'$USER': 'foo OR label:bar',
+			'$QUOTE': 'a "b" c\n$X=d',
+			'$X=y\n$Y': 'z',
+		};
+		await assertQueryData('milestone:$MILESTONE updated:>$SINCE', [{ q: 'milestone:"July 2026" updated:>2026-07-01' }], parameters);
+		await assertQueryData('assignee:$USER', [{ q: 'assignee:"foo OR label:bar"' }], parameters);
+		await assertQueryData('label:$QUOTE $X', [{ q: 'label:"a b c $X=d" $X' }], parameters);
+	});
+
+	test('query index of searches', async function () {
+		const doc = await vscode.workspace.openTextDocument({ language: 'github-issues', content: 'repo:foo\n$a=bar\nrepo:foo\nrepo:foo OR repo:bar' });
+		const project = new Project();
+		const data = project.queryData(project.getOrCreate(doc));
+		assert.deepStrictEqual(data.map(item => [item.q, item.index]), [['repo:foo', 0], ['repo:foo', 2], ['repo:foo', 3], ['repo:bar', 3]]);
+	});
 });
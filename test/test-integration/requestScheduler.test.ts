@@ -0,0 +1,116 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { RequestError } from '@octokit/request-error';
+import * as assert from 'assert';
+import { Clock, RequestScheduler } from '../../src/extension/requestScheduler';
+
+suite('Request Scheduler', function () {
+
+	// waiting moves the time forward instantly
+	class FakeClock implements Clock {
+		time = 1000 * 1000;
+		readonly waits: number[] = [];
+		now() {
+			return this.time;
+		}
+		async wait(until: number) {
+			this.waits.push(until);
+			this.time = Math.max(this.time, until);
+		}
+	}
+
+	type Headers = { [header: string]: string; };
+
+	function ok(headers: Headers = {}) {
+		return Promise.resolve({ headers, data: {} });
+	}
+
+	function fail(status: number, headers: Headers = {}, message = 'Forbidden') {
+		return Promise.reject(new RequestError(message, status, {
+			request: { method: 'GET', url: 'https://api.github.com/search/issues', headers: {} },
+			response: { status, url: 'https://api.github.com/search/issues', headers, data: {} }
+		}));
+	}
+
+	test('waits for the reset when the limit is used up', async function () {
+		const clock = new FakeClock();
+		const scheduler = new RequestScheduler(clock);
+		const reset = clock.time / 1000 + 30;
+
+		await scheduler.schedule(() => ok({ 'x-ratelimit-limit': '30', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }));
+		const waiting: number[] = [];
+		await scheduler.schedule(() => ok(), { onWaiting: until => waiting.push(until) });
+		assert.deepStrictEqual(clock.waits, [reset * 1000]);
+		assert.deepStrictEqual(waiting, [reset * 1000]);
+	});
+
+	test('retries after retry-after', async function () {
+		const clock = new FakeClock();
+		const scheduler = new RequestScheduler(clock);
+		const start = clock.time;
+
+		let attempts = 0;
+		await scheduler.schedule(() => ++attempts === 1 ? fail(403, { 'retry-after': '10' }, 'You have exceeded a secondary rate limit') : ok());
+		assert.strictEqual(attempts, 2);
+		assert.deepStrictEqual(clock.waits, [start + 10 * 1000]);
+	});
+
+	test('backs off exponentially without retry-after', async function () {
+		const clock = new FakeClock();
+		const scheduler = new RequestScheduler(clock);
+		const start = clock.time;
+
+		let attempts = 0;
+		await scheduler.schedule(() => ++attempts <= 2 ? fail(429, { 'x-ratelimit-remaining': '10' }) : ok());
+		assert.strictEqual(attempts, 3);
+		assert.deepStrictEqual(clock.waits, [start + 60 * 1000, start + 60 * 1000 + 120 * 1000]);
+	});
+
+	test('gives up after some retries', async function () {
+		const clock = new FakeClock();
+		const scheduler = new RequestScheduler(clock);
+
+		let attempts = 0;
+		await assert.rejects(scheduler.schedule(() => { attempts++; return fail(429); }), RequestError);
+		assert.strictEqual(attempts, 4);
+	});
+
+	test('other errors are not retried', async function () {
+		const clock = new FakeClock();
+		const scheduler = new RequestScheduler(clock);
+
+		let attempts = 0;
+		await assert.rejects(scheduler.schedule(() => { attempts++; return fail(403, { 'x-ratelimit-remaining': '10' }, 'Resource not accessible'); }), RequestError);
+		await assert.rejects(scheduler.schedule(() => { attempts++; return fail(422); }), RequestError);
+		await assert.rejects(scheduler.schedule(() => { attempts++; return Promise.reject(new Error('offline')); }), /offline/);
+		assert.strictEqual(attempts, 3);
+		assert.deepStrictEqual(clock.waits, []);
+	});
+
+	test('requests are queued', async function () {
+		const scheduler = new RequestScheduler(new FakeClock());
+
+		let queued = 0;
+		const order: number[] = [];
+		await Promise.all([1, 2, 3].map(n => scheduler.schedule(() => { order.push(n); return ok(); }, { onQueued: () => queued++ })));
+		assert.deepStrictEqual(order, [1, 2, 3]);
+		assert.strictEqual(queued, 2);
+	});
+
+	test('hosts and accounts have their own limits', async function () {
+		const clock = new FakeClock();
+		const scheduler = new RequestScheduler(clock);
+		const reset = clock.time / 1000 + 30;
+
+		await scheduler.schedule(() => ok({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }), { host: 'github.example.com' });
+		await scheduler.schedule(() => ok());
+		await scheduler.schedule(() => ok(), { host: 'github.example.com', account: 'octocat' });
+		assert.deepStrictEqual(clock.waits, []);
+
+		await scheduler.schedule(() => ok(), { host: 'github.example.com' });
+		assert.deepStrictEqual(clock.waits, [reset * 1000]);
+	});
+});
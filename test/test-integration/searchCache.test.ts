@@ -0,0 +1,105 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { RequestError } from '@octokit/request-error';
+import { Octokit } from '@octokit/rest';
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { RequestScheduler } from '../../src/extension/requestScheduler';
+import { SearchCache, SearchParameters } from '../../src/extension/searchCache';
+
+suite('Search Cache', function () {
+
+	const query = { q: 'repo:microsoft/vscode is:open', sort: undefined, order: undefined };
+
+	// answers searches with the total count of requests, a request with the
+	// current etag is answered with 304 like github does
+	function fakeOctokit(options: { etag?: string; delay?: number; } = {}) {
+		const requests: Pick<SearchParameters, 'headers' | 'request'>[] = [];
+		const issuesAndPullRequests = async (params: SearchParameters) => {
+			requests.push({ headers: params.headers, request: params.request });
+			if (options.delay) {
+				await new Promise(resolve => setTimeout(resolve, options.delay));
+			}
+			if (params.request?.signal?.aborted) {
+				throw new Error('aborted');
+			}
+			if (options.etag && params.headers?.['if-none-match'] === options.etag) {
+				throw new RequestError('Not Modified', 304, {
+					request: { method: 'GET', url: 'https://api.github.com/search/issues', headers: {} },
+					response: { status: 304, url: 'https://api.github.com/search/issues', headers: {}, data: {} }
+				});
+			}
+			return { headers: { etag: options.etag }, data: { total_count: requests.length, incomplete_results: false, items: [] } };
+		};
+		const octokit = <Octokit><unknown>{ rest: { search: { issuesAndPullRequests } } };
+		return { octokit, requests };
+	}
+
+	test('results are cached for the ttl', async function () {
+		let ttl = 60 * 1000;
+		const cache = new SearchCache(new RequestScheduler(), () => ttl);
+		const { octokit, requests } = fakeOctokit();
+
+		assert.strictEqual((await cache.search(octokit, query, 1)).total_count, 1);
+		assert.strictEqual((await cache.search(octokit, query, 1)).total_count, 1);
+		assert.strictEqual((await cache.search(octokit, query, 2)).total_count, 2);
+		assert.strictEqual(requests.length, 2);
+
+		ttl = 0;
+		assert.strictEqual((await cache.search(octokit, query, 1)).total_count, 3);
+		assert.strictEqual((await cache.search(octokit, query, 1, { force: true })).total_count, 4);
+	});
+
+	test('expired results are revalidated', async function () {
+		const cache = new SearchCache(new RequestScheduler(), () => 0);
+		const { octokit, requests } = fakeOctokit({ etag: '"abc"' });
+
+		const first = await cache.search(octokit, query, 1);
+		const second = await cache.search(octokit, query, 1);
+		assert.strictEqual(second, first);
+		assert.strictEqual(requests.length, 2);
+		assert.strictEqual(requests[0].headers, undefined);
+		assert.deepStrictEqual(requests[1].headers, { 'if-none-match': '"abc"' });
+	});
+
+	test('identical searches share a request', async function () {
+		const cache = new SearchCache(new RequestScheduler(), () => 0);
+		const { octokit, requests } = fakeOctokit({ delay: 10 });
+
+		const [a, b] = await Promise.all([cache.search(octokit, query, 1), cache.search(octokit, query, 1)]);
+		assert.strictEqual(a, b);
+		assert.strictEqual(requests.length, 1);
+	});
+
+	test('forced searches don\'t join a pending request', async function () {
+		const cache = new SearchCache(new RequestScheduler(), () => 0);
+		const { octokit, requests } = fakeOctokit({ delay: 10 });
+
+		const [a, b] = await Promise.all([cache.search(octokit, query, 1), cache.search(octokit, query, 1, { force: true })]);
+		assert.notStrictEqual(a, b);
+		assert.strictEqual(requests.length, 2);
+	});
+
+	test('a shared request is only cancelled when all waiters cancelled', async function () {
+		const cache = new SearchCache(new RequestScheduler(), () => 0);
+		const { octokit, requests } = fakeOctokit({ delay: 10 });
+
+		const first = new AbortController();
+		const second = new AbortController();
+		const a = cache.search(octokit, query, 1, { signal: first.signal });
+		const b = cache.search(octokit, query, 1, { signal: second.signal });
+		first.abort();
+		await assert.rejects(a, vscode.CancellationError);
+		assert.strictEqual((await b).total_count, 1);
+		assert.strictEqual(requests[0].request?.signal?.aborted, false);
+
+		const third = new vscode.CancellationTokenSource();
+		const c = cache.search(octokit, query, 1, { token: third.token });
+		third.cancel();
+		await assert.rejects(c, vscode.CancellationError);
+		assert.strictEqual(requests.length, 1);
+	});
+});
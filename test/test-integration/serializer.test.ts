@@ -0,0 +1,68 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { IssuesNotebookSerializer } from '../../src/extension/notebookProvider';
+
+suite('Serializer', () => {
+
+	const serializer = new IssuesNotebookSerializer();
+
+	function roundTrip(raw: unknown): { data: vscode.NotebookData; raw: unknown; } {
+		const data = serializer.deserializeNotebook(new TextEncoder().encode(JSON.stringify(raw)));
+		const result = JSON.parse(new TextDecoder().decode(serializer.serializeNotebook(data)));
+		return { data, raw: result };
+	}
+
+	test('array of cells', function () {
+		const raw = [
+			{ kind: vscode.NotebookCellKind.Markup, language: 'markdown', value: '# Bugs' },
+			{ kind: vscode.NotebookCellKind.Code, language: 'github-issues', value: 'repo:microsoft/vscode label:bug' },
+		];
+		const result = roundTrip(raw);
+		assert.deepStrictEqual(result.data.cells.map(cell => cell.value), ['# Bugs', 'repo:microsoft/vscode label:bug']);
+		assert.deepStrictEqual(result.raw, raw);
+	});
+
+	test('metadata and cells', function () {
+		const snapshot = {
+			timestamp: 1700000000000,
+			queries: ['repo:microsoft/vscode label:bug'],
+			items: [{ id: 1, number: 1, url: 'https://api.github.com/repos/microsoft/vscode/issues/1', title: 'Bug', labels: [] }]
+		};
+		const raw = {
+			metadata: { snapshot: true, account: 'octocat' },
+			cells: [
+				{ kind: vscode.NotebookCellKind.Code, language: 'github-issues', value: 'repo:microsoft/vscode label:bug', metadata: { snapshot, watch: { interval: 15 } } },
+			]
+		};
+		const result = roundTrip(raw);
+		assert.deepStrictEqual(result.data.metadata, raw.metadata);
+		const [output] = result.data.cells[0].outputs ?? [];
+		assert.strictEqual(output?.metadata?.snapshot?.timestamp, snapshot.timestamp);
+		assert.deepStrictEqual(result.raw, raw);
+	});
+
+	test('snapshots are only restored when enabled', function () {
+		const result = roundTrip({
+			metadata: { account: 'octocat' },
+			cells: [
+				{ kind: vscode.NotebookCellKind.Code, language: 'github-issues', value: 'is:open', metadata: { snapshot: { timestamp: 1, queries: [], items: [] } } },
+			]
+		});
+		assert.ok(!result.data.cells[0].outputs?.length);
+	});
+
+	test('watch settings with short intervals are dropped', function () {
+		const result = roundTrip({
+			metadata: {},
+			cells: [
+				{ kind: vscode.NotebookCellKind.Code, language: 'github-issues', value: 'is:open', metadata: { watch: { interval: 1 } } },
+			]
+		});
+		assert.deepStrictEqual(result.data.cells[0].metadata, {});
+	});
+});
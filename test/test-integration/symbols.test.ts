@@ -0,0 +1,27 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Symbols', () => {
+
+	suiteSetup(async function () {
+		await vscode.extensions.getExtension('ms-vscode.vscode-github-issue-notebooks')?.activate();
+	});
+
+	test('Variables and queries of a document', async function () {
+
+		const content = '$bugs=label:bug\n$mine(user)=assignee:$user\nhost:github.com\nrepo:microsoft/vscode $bugs\n$bugs OR $mine(octocat)';
+		const doc = await vscode.workspace.openTextDocument({ language: 'github-issues', content });
+
+		const result = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>('vscode.executeDocumentSymbolProvider', doc.uri);
+
+		assert.deepEqual(result.map(symbol => symbol.name), ['$bugs', '$mine(user)', 'repo:microsoft/vscode $bugs', '$bugs OR $mine(octocat)']);
+		assert.deepEqual(result.map(symbol => symbol.kind), [vscode.SymbolKind.Variable, vscode.SymbolKind.Function, vscode.SymbolKind.Event, vscode.SymbolKind.Event]);
+		assert.equal(result[0].detail, 'label:bug');
+	});
+});
@@ -0,0 +1,37 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('GitHub Validation', () => {
+
+	suiteSetup(async function () {
+		await vscode.extensions.getExtension('ms-vscode.vscode-github-issue-notebooks')?.activate();
+	});
+
+	async function diagnosticsOf(content: string): Promise<string[]> {
+		const doc = await vscode.workspace.openTextDocument({ language: 'github-issues', content });
+		return new Promise((resolve, reject) => {
+			const handle = setTimeout(() => {
+				listener.dispose();
+				reject(new Error('timeout'));
+			}, 5000);
+			const listener = vscode.languages.onDidChangeDiagnostics(e => {
+				const diagnostics = vscode.languages.getDiagnostics(doc.uri);
+				if (e.uris.some(uri => uri.toString() === doc.uri.toString()) && diagnostics.length > 0) {
+					clearTimeout(handle);
+					listener.dispose();
+					resolve(diagnostics.map(diag => diag.message));
+				}
+			});
+		});
+	}
+
+	test('unknown labels and milestones', async function () {
+		assert.deepStrictEqual(await diagnosticsOf('repo:microsoft/vscode label:bug label:nope'), ["Label 'nope' is unknown"]);
+		assert.deepStrictEqual(await diagnosticsOf('repo:microsoft/vscode milestone:"May 2020" milestone:"June 2077"'), ["Milestone 'June 2077' is unknown"]);
+	});
+});
@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { firstCreatedDate, printCreatedRange, splitCreatedRange } from '../../src/extension/createdRange.js';
+
+suite('Created Range', function () {
+
+	test('print', function () {
+		assert.equal(printCreatedRange(firstCreatedDate, Date.UTC(2026, 0, 1, 12, 30, 15)), 'created:2007-10-01T00:00:00Z..2026-01-01T12:30:15Z');
+	});
+
+	test('halves cover the range without overlap', function () {
+		const from = firstCreatedDate;
+		const to = Date.UTC(2026, 0, 1);
+		const [left, right] = splitCreatedRange(from, to)!;
+		assert.equal(left[0], from);
+		assert.equal(right[1], to);
+		assert.equal(right[0] - left[1], 1000);
+		assert.equal(left[1] % 1000, 0);
+		assert.ok(Math.abs((left[1] - left[0]) - (right[1] - right[0])) <= 1000);
+	});
+
+	test('split until one second', function () {
+		assert.deepEqual(splitCreatedRange(0, 3000), [[0, 1000], [2000, 3000]]);
+		assert.deepEqual(splitCreatedRange(0, 2000), [[0, 1000], [2000, 2000]]);
+		assert.equal(splitCreatedRange(0, 1000), undefined);
+		assert.equal(splitCreatedRange(5000, 5000), undefined);
+	});
+});
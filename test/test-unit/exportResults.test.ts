@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { SearchIssuesAndPullRequestsResponseItemsItem } from '../../src/common/types.js';
+import { exportColumns, exportItems } from '../../src/extension/exportResults.js';
+
+suite('Export Results', function () {
+
+	const item = <SearchIssuesAndPullRequestsResponseItemsItem><unknown>{
+		number: 12,
+		title: 'Crash when "saving", sometimes | always',
+		state: 'open',
+		repository_url: 'https://api.github.com/repos/microsoft/vscode',
+		html_url: 'https://github.com/microsoft/vscode/issues/12',
+		labels: [{ name: 'bug' }, { name: 'important' }],
+		assignees: [],
+		user: { login: 'octocat' },
+		milestone: null,
+	};
+
+	const columns = exportColumns.filter(column => ['number', 'title', 'repository', 'labels'].includes(column.id));
+
+	test('csv', function () {
+		assert.equal(exportItems([item], columns, 'csv'), [
+			'Number,Title,Repository,Labels',
+			'12,"Crash when ""saving"", sometimes | always",microsoft/vscode,"bug, important"',
+			''
+		].join('\r\n'));
+	});
+
+	test('csv formulas', function () {
+		const formulas = ['=HYPERLINK("https://example.com")', '+1', '-1', '@SUM(A1)'].map(title => ({ ...item, title }));
+		assert.equal(exportItems(formulas, columns.slice(0, 2), 'csv'), [
+			'Number,Title',
+			'12,"\'=HYPERLINK(""https://example.com"")"',
+			'12,\'+1',
+			'12,\'-1',
+			'12,\'@SUM(A1)',
+			''
+		].join('\r\n'));
+	});
+
+	test('json', function () {
+		assert.deepEqual(JSON.parse(exportItems([item], columns, 'json')), [{
+			number: 12,
+			title: 'Crash when "saving", sometimes | always',
+			repository: 'microsoft/vscode',
+			labels: 'bug, important'
+		}]);
+	});
+
+	test('markdown', function () {
+		assert.equal(exportItems([item], columns, 'markdown'), [
+			'| Number | Title | Repository | Labels |',
+			'| --- | --- | --- | --- |',
+			'| 12 | Crash when "saving", sometimes \\| always | microsoft/vscode | bug, important |',
+			''
+		].join('\n'));
+	});
+});
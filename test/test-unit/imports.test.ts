@@ -0,0 +1,56 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { collectImports } from '../../src/extension/imports.js';
+
+suite('Imports', function () {
+
+	// files by name and the files that they import
+	function collect(files: { [name: string]: string[]; }, root: string) {
+		const loaded: string[] = [];
+		const result = collectImports([root], [root], name => files[name] ?? [], async name => {
+			loaded.push(name);
+			return name in files ? [name] : [];
+		});
+		return result.then(docs => ({ docs, loaded }));
+	}
+
+	test('nested imports', async function () {
+		const { docs } = await collect({ nb: ['a'], a: ['b'], b: [] }, 'nb');
+		assert.deepStrictEqual(docs, ['a', 'b']);
+	});
+
+	test('missing files', async function () {
+		const { docs, loaded } = await collect({ nb: ['a', 'missing'], a: [] }, 'nb');
+		assert.deepStrictEqual(docs, ['a']);
+		assert.deepStrictEqual(loaded, ['a', 'missing']);
+	});
+
+	test('cycles', async function () {
+		const { docs, loaded } = await collect({ nb: ['a'], a: ['b'], b: ['a'] }, 'nb');
+		assert.deepStrictEqual(docs, ['a', 'b']);
+		assert.deepStrictEqual(loaded, ['a', 'b']);
+	});
+
+	test('self imports', async function () {
+		const { docs, loaded } = await collect({ nb: ['nb', 'a'], a: ['nb'] }, 'nb');
+		assert.deepStrictEqual(docs, ['a']);
+		assert.deepStrictEqual(loaded, ['a']);
+	});
+
+	test('files are loaded once', async function () {
+		const { docs, loaded } = await collect({ nb: ['a', 'b'], a: ['c'], b: ['c'], c: [] }, 'nb');
+		assert.deepStrictEqual(docs, ['a', 'b', 'c']);
+		assert.deepStrictEqual(loaded, ['a', 'b', 'c']);
+	});
+
+	test('notebooks with many cells', async function () {
+		const cells: { [name: string]: string[]; } = { 'nb': ['other'], 'other#0': ['a'], 'other#1': [], 'a': [] };
+		const docs = await collectImports(['nb'], ['nb'], name => cells[name], async name => name === 'other' ? ['other#0', 'other#1'] : [name]);
+		assert.deepStrictEqual(docs, ['other#0', 'other#1', 'a']);
+	});
+});
@@ -7,6 +7,8 @@ import * as assert from 'assert';
 import { suite, test } from 'mocha';
 import { NodeType, QueryNode, Utils } from '../../src/extension/parser/nodes.js';
 import { Parser } from '../../src/extension/parser/parser.js';
+import { resolveRelativeDate, resolveRelativeDates } from '../../src/extension/parser/relativeDates.js';
+import { SymbolTable } from '../../src/extension/parser/symbols.js';
 
 suite('Parser', function () {
 
@@ -113,6 +115,35 @@ suite('Parser', function () {
 		assertNodeTypes('milestone:4.7.0', NodeType.QualifiedValue);
 	});
 
+	test('Macros', function () {
+		assertNodeTypesDeep('$team(user)=involves:$user', NodeType.VariableDefinition, NodeType.VariableName, NodeType.ArgumentList, NodeType.Literal, NodeType.Query, NodeType.QualifiedValue, NodeType.Literal, NodeType.VariableName);
+		assertNodeTypesDeep('$m(a, b)=a', NodeType.VariableDefinition, NodeType.VariableName, NodeType.ArgumentList, NodeType.Literal, NodeType.Literal, NodeType.Query, NodeType.Literal);
+		assertNodeTypesDeep('$team(alice) is:open', NodeType.Query, NodeType.MacroCall, NodeType.VariableName, NodeType.ArgumentList, NodeType.Literal, NodeType.QualifiedValue, NodeType.Literal, NodeType.Literal);
+		assertNodeTypesDeep('$m("a b", 12, 2020-01-01, $x)', NodeType.Query, NodeType.MacroCall, NodeType.VariableName, NodeType.ArgumentList, NodeType.Literal, NodeType.Number, NodeType.Date, NodeType.VariableName);
+		assertNodeTypesDeep('$m()', NodeType.Query, NodeType.MacroCall, NodeType.VariableName, NodeType.ArgumentList);
+		assertNodeTypesDeep('$m(a', NodeType.Query, NodeType.MacroCall, NodeType.VariableName, NodeType.ArgumentList, NodeType.Literal);
+		// not a call without the parenthesis right after the name
+		assertNodeTypesDeep('$m (a)', NodeType.Query, NodeType.VariableName, NodeType.Group, NodeType.Query, NodeType.Literal);
+	});
+
+	test('Relative dates', function () {
+		assertNodeTypesDeep('updated:>@today-7d', NodeType.Query, NodeType.QualifiedValue, NodeType.Literal, NodeType.Compare, NodeType.Date);
+		assertNodeTypesDeep('closed:@monday..@today', NodeType.Query, NodeType.QualifiedValue, NodeType.Literal, NodeType.Range, NodeType.Date, NodeType.Date);
+		assertNodeTypesDeep('created:@yesterday', NodeType.Query, NodeType.QualifiedValue, NodeType.Literal, NodeType.Date);
+	});
+
+	test('Group', function () {
+		assertNodeTypes('(label:bug OR label:regression) is:open', NodeType.Group, NodeType.QualifiedValue);
+		assertNodeTypes('is:open (label:bug)', NodeType.QualifiedValue, NodeType.Group);
+		assertNodeTypes('is:open (label:bug', NodeType.QualifiedValue, NodeType.Group);
+		assertNodeTypes('is:open label:bug)', NodeType.QualifiedValue, NodeType.QualifiedValue, NodeType.Any);
+		assertNodeTypes('comments:>10 (comments:5)', NodeType.QualifiedValue, NodeType.Group);
+		assertNodeTypesDeep('(foo OR bar) baz', NodeType.Query, NodeType.Group, NodeType.OrExpression, NodeType.Query, NodeType.Literal, NodeType.Query, NodeType.Literal, NodeType.Literal);
+		assertNodeTypesDeep('((foo))', NodeType.Query, NodeType.Group, NodeType.Query, NodeType.Group, NodeType.Query, NodeType.Literal);
+		assertNodeTypesDeep('()', NodeType.Query, NodeType.Group, NodeType.Missing);
+		assertNodeTypesDeep('(a) OR b', NodeType.OrExpression, NodeType.Query, NodeType.Group, NodeType.Query, NodeType.Literal, NodeType.Query, NodeType.Literal);
+	});
+
 
 });
 
@@ -140,6 +171,8 @@ suite('Print Nodes', function () {
 		assertPrinted('comments:10..*');
 		assertPrinted('comments:*..20');
 		assertPrinted('created:>=2020-03-22');
+		assertPrinted('created:2020-03-22T10:00:00Z..2020-03-23');
+		assertPrinted('updated:>@today-7d');
 		assertPrinted('foo NOT bar');
 		assertPrinted('foo NOT bar //comment', ['foo NOT bar']);
 	});
@@ -255,4 +288,135 @@ suite('Print Nodes', function () {
 	test('Queries using GH OR syntax don\'t execute correctly #122', function () {
 		assertPrinted('repo:microsoft/vscode label:workbench-window,workbench-zen -milestone:"Backlog Candidates"');
 	});
+
+	test('macros', function () {
+		const symbols = new SymbolTable();
+		const text = '$team(user)=involves:$user -author:$user\n$range(from, to)=updated:$from..$to\n$user=bob';
+		symbols.update(new Parser().parse(text));
+		const assertExpanded = (input: string, expected: string) => {
+			const [query] = new Parser().parse(input).nodes;
+			assert.ok(query._type === NodeType.Query);
+			assert.equal(Utils.print(query, input, (name, args) => symbols.resolve(name, args)), expected);
+		};
+		assertExpanded('$team(alice) is:open', 'involves:alice -author:alice is:open');
+		assertExpanded('$team($user)', 'involves:bob -author:bob');
+		assertExpanded('$range(2020-01-01, 2020-02-01)', 'updated:2020-01-01..2020-02-01');
+		assertExpanded('$team', 'involves:$user -author:$user');
+		assertExpanded('$nope(alice)', '$nope(alice)');
+		assertPrinted('$team(user)=involves:$user', ['involves:$user']);
+	});
+
+	test('pinned variables', function () {
+		const symbols = new SymbolTable();
+		symbols.update(new Parser().parse('$MILESTONE="July 2026"', 'parameters'), true);
+		symbols.update(new Parser().parse('$MILESTONE=June', 'cell'));
+		assert.equal(symbols.resolve('$MILESTONE'), '"July 2026"');
+		symbols.delete('parameters');
+		assert.equal(symbols.resolve('$MILESTONE'), 'June');
+	});
+
+	test('relative dates', function () {
+		assertPrinted('updated:>@today-7d');
+		assertPrinted('closed:@monday..@today');
+	});
+
+	test('group', function () {
+		assertPrinted('(label:bug OR label:regression) is:open', ['(label:bug OR label:regression) is:open', 'label:bug', 'label:regression']);
+		assertPrinted('is:open (label:bug', ['is:open (label:bug', 'label:bug']);
+	});
+});
+
+suite('Expand Queries', function () {
+
+	function assertExpanded(text: string, expected: string[], values = new Map<string, string>()) {
+		const [node] = new Parser().parse(text).nodes;
+		assert.ok(node._type === NodeType.Query || node._type === NodeType.OrExpression);
+		const variableValue = (name: string) => values.get(name);
+		const actual = Utils.expand(node, text, variableValue).map(query => Utils.print(query, text, variableValue));
+		assert.deepEqual(actual, expected, text);
+	}
+
+	test('without groups', function () {
+		assertExpanded('label:bug is:open', ['label:bug is:open']);
+		assertExpanded('label:bug OR label:foo', ['label:bug', 'label:foo']);
+		assertExpanded('label:$zzz OR foo $zzz', ['label:xxx', 'foo xxx'], new Map([['$zzz', 'xxx']]));
+	});
+
+	test('distribute AND over OR', function () {
+		assertExpanded('(label:bug OR label:regression) is:open author:@me', ['label:bug is:open author:@me', 'label:regression is:open author:@me']);
+		assertExpanded('is:open (label:bug OR label:regression)', ['is:open label:bug', 'is:open label:regression']);
+		assertExpanded('(a OR b) (c OR d)', ['a c', 'a d', 'b c', 'b d']);
+		assertExpanded('(a OR (b OR c)) d', ['a d', 'b d', 'c d']);
+		assertExpanded('(a OR b) c OR d', ['a c', 'b c', 'd']);
+		assertExpanded('(a b) c', ['a b c']);
+		assertExpanded('() a', ['a']);
+	});
+
+	test('repeated queries', function () {
+		assertExpanded('(a OR a) b', ['a b']);
+		assertExpanded('a b OR b a', ['a b']);
+		assertExpanded('a OR a b', ['a', 'a b']);
+		assertExpanded('(a OR b) (a OR b)', ['a', 'a b', 'b']);
+		assertExpanded('(a OR b) (b OR c)', ['a b', 'a c', 'b', 'b c']);
+		// multiple repo-qualifiers match any of the repositories
+		assertExpanded('repo:a OR repo:a repo:b', ['repo:a', 'repo:a repo:b']);
+	});
+
+	test('groups in variables', function () {
+		const values = new Map([['$repos', '(repo:a OR repo:b)'], ['$bug', 'label:bug'], ['$nested', '((a OR b) OR c) d']]);
+		assertExpanded('$repos is:open', ['repo:a is:open', 'repo:b is:open'], values);
+		assertExpanded('$repos $bug OR $bug', ['repo:a label:bug', 'repo:b label:bug', 'label:bug'], values);
+		assertExpanded('$nested', ['a d', 'b d', 'c d'], values);
+		assertExpanded('$repos repo:a', ['repo:a', 'repo:b repo:a'], values);
+	});
+});
+
+suite('Relative Dates', function () {
+
+	// Wednesday, 2020-05-06 in UTC
+	const now = new Date(Date.UTC(2020, 4, 6, 15, 30));
+
+	test('resolve', function () {
+		assert.equal(resolveRelativeDate('@today', now), '2020-05-06');
+		assert.equal(resolveRelativeDate('@yesterday', now), '2020-05-05');
+		assert.equal(resolveRelativeDate('@today-7d', now), '2020-04-29');
+		assert.equal(resolveRelativeDate('@today+1w', now), '2020-05-13');
+		assert.equal(resolveRelativeDate('@today-1m', now), '2020-04-06');
+		assert.equal(resolveRelativeDate('@today-1y', now), '2019-05-06');
+		assert.equal(resolveRelativeDate('@monday', now), '2020-05-04');
+		assert.equal(resolveRelativeDate('@wednesday', now), '2020-05-06');
+		assert.equal(resolveRelativeDate('@thursday', now), '2020-04-30');
+		assert.equal(resolveRelativeDate('@monday-1w+1d', now), '2020-04-28');
+		assert.equal(resolveRelativeDate('@me', now), undefined);
+		assert.equal(resolveRelativeDate('2020-05-06', now), undefined);
+	});
+
+	test('days are UTC days', function () {
+		assert.equal(resolveRelativeDate('@today', new Date(Date.UTC(2020, 4, 6, 0, 30))), '2020-05-06');
+		assert.equal(resolveRelativeDate('@today', new Date(Date.UTC(2020, 4, 6, 23, 30))), '2020-05-06');
+		assert.equal(resolveRelativeDate('@today', new Date('2020-05-06T20:00:00-05:00')), '2020-05-07');
+		assert.equal(resolveRelativeDate('@monday', new Date('2020-05-04T08:00:00+09:00')), '2020-04-27');
+	});
+
+	test('end of month', function () {
+		const march31 = new Date(Date.UTC(2020, 2, 31));
+		assert.equal(resolveRelativeDate('@today-1m', march31), '2020-02-29');
+		assert.equal(resolveRelativeDate('@today+1m', march31), '2020-04-30');
+		assert.equal(resolveRelativeDate('@today-3m', march31), '2019-12-31');
+		assert.equal(resolveRelativeDate('@today-1y-1m', march31), '2019-02-28');
+		assert.equal(resolveRelativeDate('@today-1m', new Date(Date.UTC(2021, 2, 31))), '2021-02-28');
+
+		const leapDay = new Date(Date.UTC(2020, 1, 29));
+		assert.equal(resolveRelativeDate('@today-1y', leapDay), '2019-02-28');
+		assert.equal(resolveRelativeDate('@today+4y', leapDay), '2024-02-29');
+		assert.equal(resolveRelativeDate('@today+1m', leapDay), '2020-03-29');
+	});
+
+	test('resolve in queries', function () {
+		assert.equal(resolveRelativeDates('is:open updated:>@today-7d', now), 'is:open updated:>2020-04-29');
+		assert.equal(resolveRelativeDates('closed:@monday..@today', now), 'closed:2020-05-04..2020-05-06');
+		assert.equal(resolveRelativeDates('created:>=@yesterday', now), 'created:>=2020-05-05');
+		assert.equal(resolveRelativeDates('@today is free text', now), '@today is free text');
+		assert.equal(resolveRelativeDates('assignee:@me', now), 'assignee:@me');
+	});
 });
@@ -0,0 +1,28 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { SearchIssuesAndPullRequestsResponseItemsItem } from '../../src/common/types.js';
+import { diffResults } from '../../src/extension/resultDiff.js';
+
+suite('Result Diff', function () {
+
+	function item(number: number, updated_at: string = '2026-01-01T00:00:00Z') {
+		return <SearchIssuesAndPullRequestsResponseItemsItem><unknown>{ url: `https://api.github.com/repos/microsoft/vscode/issues/${number}`, number, updated_at };
+	}
+
+	test('new, changed, and removed', function () {
+		const diff = diffResults([item(1), item(2), item(3)], [item(1), item(2, '2026-01-02T00:00:00Z'), item(4)]);
+		assert.deepEqual(diff.added, [item(4).url]);
+		assert.deepEqual(diff.changed, [item(2).url]);
+		assert.deepEqual(diff.removed.map(item => item.number), [3]);
+	});
+
+	test('no changes', function () {
+		const diff = diffResults([item(1), item(2)], [item(2), item(1), item(1)]);
+		assert.deepEqual(diff, { added: [], changed: [], removed: [] });
+	});
+});
@@ -56,6 +56,13 @@ suite('Scanner', function () {
 		assertTokenTypes('//', TokenType.LineComment);
 		assertTokenTypes('// aaaa aaa', TokenType.LineComment);
 		assertTokenTypes(',', TokenType.Comma);
+		assertTokenTypes('@today', TokenType.RelativeDate);
+		assertTokenTypes('@today-7d', TokenType.RelativeDate);
+		assertTokenTypes('@monday+1w-2d', TokenType.RelativeDate);
+		assertTokenTypes('@me', TokenType.Literal);
+		assertTokenTypes('@todays', TokenType.Literal);
+		assertTokenTypes('(', TokenType.OpenParen);
+		assertTokenTypes(')', TokenType.CloseParen);
 	});
 
 	test('Sequence', function () {
@@ -70,6 +77,12 @@ suite('Scanner', function () {
 		);
 
 		assertTokenTypes('label:foo', TokenType.Literal, TokenType.Colon, TokenType.Literal);
+		assertTokenTypes('closed:@monday..@today', TokenType.Literal, TokenType.Colon, TokenType.RelativeDate, TokenType.Range, TokenType.RelativeDate);
+		assertTokenTypes('updated:>@today-7d', TokenType.Literal, TokenType.Colon, TokenType.GreaterThan, TokenType.RelativeDate);
+		assertTokenTypes('(label:foo)', TokenType.OpenParen, TokenType.Literal, TokenType.Colon, TokenType.Literal, TokenType.CloseParen);
+		assertTokenTypes('label:"foo (bar)"', TokenType.Literal, TokenType.Colon, TokenType.QuotedLiteral);
+		assertTokenTypes('label:foo(bar)', TokenType.Literal, TokenType.Colon, TokenType.Literal);
+		assertTokenTypes('bug(s) (bug(s))', TokenType.Literal, TokenType.Whitespace, TokenType.OpenParen, TokenType.Literal, TokenType.CloseParen);
 		assertTokenTypes('label:"foo bar"', TokenType.Literal, TokenType.Colon, TokenType.QuotedLiteral);
 		assertTokenTypes('-label:foo', TokenType.Dash, TokenType.Literal, TokenType.Colon, TokenType.Literal);
 		assertTokenTypes('label:<123', TokenType.Literal, TokenType.Colon, TokenType.LessThan, TokenType.Number);
@@ -12,11 +12,15 @@ import { Code, validateQueryDocument } from '../../src/extension/parser/validati
 suite('Validation', function () {
 
 	function assertValidateErrors(input: string, ...expected: Code[]) {
+		assertValidateErrorsWithLimit(input, undefined, ...expected);
+	}
+
+	function assertValidateErrorsWithLimit(input: string, maxRequests: number | undefined, ...expected: Code[]) {
 		const symbols = new SymbolTable();
 		const parser = new Parser();
 		const query = parser.parse(input, 'file1');
 		symbols.update(query);
-		const errors = validateQueryDocument(query, symbols);
+		const errors = validateQueryDocument(query, symbols, maxRequests);
 		for (let { code } of errors) {
 			assert.deepEqual(code, expected.shift(), input);
 		}
@@ -67,6 +71,13 @@ suite('Validation', function () {
 		assertValidateErrors('reason:"not supported"', Code.ValueUnknown);
 	});
 
+	test('directives', function () {
+		assertValidateErrors('host:github.example.com account:octocat');
+		assertValidateErrors('import:teams.github-issues.txt');
+		assertValidateErrors('import:"../shared/teams.github-issues.txt"');
+		assertValidateErrors('import:"team notes.github-issues"');
+	});
+
 	test('variable definition', function () {
 		assertValidateErrors('$var=foo or bar');
 		assertValidateErrors('$var=foo OR bar', Code.OrNotAllowed);
@@ -108,4 +119,41 @@ suite('Validation', function () {
 	test('Can\'t assign `sort:reactions-+1-desc` to a variable #54', function () {
 		assertValidateErrors('$upvote_sort=sort:reactions-+1-desc');
 	});
+
+	test('macros', function () {
+		assertValidateErrors('$team(user)=involves:$user -author:$user\n$team(alice)');
+		assertValidateErrors('$since(date)=updated:>$date\n$since(2020-01-01)');
+		assertValidateErrors('$range(a, b)=updated:$a..$b\n$range(@monday, @today)');
+		assertValidateErrors('$team(user)=involves:$user\n$team(alice, bob)', Code.ArgumentCountMismatch);
+		assertValidateErrors('$team(user)=involves:$user\n$team', Code.ArgumentCountMismatch);
+		assertValidateErrors('$bug=label:bug\n$bug(alice)', Code.ArgumentCountMismatch);
+		assertValidateErrors('$since(date)=updated:>$date\n$since(alice)', Code.ValueTypeUnknown);
+		assertValidateErrors('$nope(alice)', Code.VariableUnknown);
+		assertValidateErrors('$team(user)=involves:$user\n$team(alice', Code.ArgumentListNotClosed);
+		assertValidateErrors('$team(user, )=involves:$user', Code.NodeMissing);
+		assertValidateErrors('$team(user)=involves:$usr', Code.ValueTypeUnknown);
+		assertValidateErrors('$team(user)=is:open $team(user)', Code.VariableDefinedRecursive);
+	});
+
+	test('relative dates', function () {
+		assertValidateErrors('updated:>@today-7d');
+		assertValidateErrors('closed:@monday..@today');
+		assertValidateErrors('closed:@monday..12', Code.RangeMixesTypes);
+	});
+
+	test('groups', function () {
+		assertValidateErrors('(label:bug OR label:regression) is:open');
+		assertValidateErrors('(label:bug OR label:regression is:open', Code.GroupNotClosed);
+		assertValidateErrors('label:bug) is:open', Code.GroupNotOpened);
+		assertValidateErrors('() is:open', Code.NodeMissing);
+		assertValidateErrors('$a=(label:bug OR label:regression)', Code.OrNotAllowed);
+	});
+
+	test('too many requests', function () {
+		assertValidateErrorsWithLimit('(a OR b) (c OR d)', 4);
+		assertValidateErrorsWithLimit('(a OR b) (c OR d)', 3, Code.TooManyRequests);
+		assertValidateErrorsWithLimit('(a OR b) (c OR d) OR e', 4, Code.TooManyRequests);
+		assertValidateErrorsWithLimit('(a OR b) (a OR b)', 3);
+		assertValidateErrorsWithLimit('(a OR b) (a OR b)', 2, Code.TooManyRequests);
+	});
 });
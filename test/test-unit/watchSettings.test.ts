@@ -0,0 +1,29 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { suite, test } from 'mocha';
+import { getWatchSettings, minWatchInterval } from '../../src/extension/watchSettings.js';
+
+suite('Watch Settings', function () {
+
+	test('valid intervals', function () {
+		assert.deepStrictEqual(getWatchSettings({ watch: { interval: 15 } }), { interval: 15 });
+		assert.deepStrictEqual(getWatchSettings({ watch: { interval: minWatchInterval } }), { interval: minWatchInterval });
+	});
+
+	test('invalid intervals', function () {
+		assert.strictEqual(getWatchSettings({ watch: { interval: minWatchInterval - 1 } }), undefined);
+		assert.strictEqual(getWatchSettings({ watch: { interval: 0 } }), undefined);
+		assert.strictEqual(getWatchSettings({ watch: { interval: '15' } }), undefined);
+		assert.strictEqual(getWatchSettings({ watch: {} }), undefined);
+	});
+
+	test('no watch settings', function () {
+		assert.strictEqual(getWatchSettings(undefined), undefined);
+		assert.strictEqual(getWatchSettings({}), undefined);
+		assert.strictEqual(getWatchSettings({ watch: null }), undefined);
+	});
+});